@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+
+type InviteCode = {
+  code: string;
+  is_active: boolean;
+  max_uses: number | null;
+  uses: number;
+  claim_count?: number;
+  consumed_count?: number;
+  last_claimed_at?: string | null;
+};
+
+type InviteClaim = {
+  id: string;
+  email: string;
+  created_at: string;
+  expires_at: string;
+  consumed_at: string | null;
+  status: "consumed" | "pending" | "expired";
+};
+
+const API = "/api/admin/invites";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+
+async function readError(res: Response) {
+  const data = await res.json().catch(() => null);
+  return (data?.error as string | undefined) ?? `Request failed (${res.status})`;
+}
+
+function fmt(ts: string | null | undefined) {
+  return ts ? new Date(ts).toLocaleString() : "—";
+}
+
+export default function AdminInvitesPage() {
+  const { data: auth, status } = useSession();
+  const isAdmin = auth?.user?.role === "admin";
+
+  const [codes, setCodes] = useState<InviteCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form
+  const [newCode, setNewCode] = useState("");
+  const [newMaxUses, setNewMaxUses] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  // Claims drill-down
+  const [openCode, setOpenCode] = useState<string | null>(null);
+  const [claims, setClaims] = useState<InviteClaim[]>([]);
+  const [claimsLoading, setClaimsLoading] = useState(false);
+
+  // Inline max-uses edit
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [editMaxUses, setEditMaxUses] = useState("");
+
+  async function fetchCodes() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(API);
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setCodes(data.codes as InviteCode[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load invite codes");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (isAdmin) fetchCodes();
+  }, [isAdmin]);
+
+  async function createCode(e: React.FormEvent) {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch(API, {
+        method: "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({
+          code: newCode.trim() || undefined,
+          max_uses: newMaxUses.trim() || null,
+        }),
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      setNewCode("");
+      setNewMaxUses("");
+      await fetchCodes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create invite code");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function updateCode(code: string, patch: { is_active?: boolean; max_uses?: string | null }) {
+    setError(null);
+    try {
+      const res = await fetch(`${API}/${encodeURIComponent(code)}`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setCodes((prev) => prev.map((c) => (c.code === code ? { ...c, ...data.code } : c)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update invite code");
+      return false;
+    }
+  }
+
+  async function toggleClaims(code: string) {
+    if (openCode === code) {
+      setOpenCode(null);
+      return;
+    }
+
+    setOpenCode(code);
+    setClaims([]);
+    setClaimsLoading(true);
+    try {
+      const res = await fetch(`${API}/${encodeURIComponent(code)}`);
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setClaims(data.claims as InviteClaim[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load claims");
+    } finally {
+      setClaimsLoading(false);
+    }
+  }
+
+  if (status === "loading") {
+    return <main className="max-w-3xl mx-auto p-4 text-sm text-gray-600">Loading…</main>;
+  }
+
+  if (!isAdmin) {
+    return (
+      <main className="max-w-3xl mx-auto p-4 text-sm text-gray-700">
+        This page is for admins only.
+      </main>
+    );
+  }
+
+  return (
+    <main className="max-w-3xl mx-auto p-4">
+      <div className="flex items-center justify-between">
+        <h1 className="font-semibold text-lg">Invite codes</h1>
+        <button
+          onClick={fetchCodes}
+          disabled={loading}
+          className="px-3 py-1.5 rounded border text-sm disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <form onSubmit={createCode} className="mt-4 flex flex-wrap items-end gap-2 border rounded p-3">
+        <div>
+          <label className="block text-xs text-gray-600">Code (blank = random)</label>
+          <input
+            className="border rounded px-3 py-2 text-sm"
+            value={newCode}
+            onChange={(e) => setNewCode(e.target.value)}
+            placeholder="e.g. SPRING-BETA"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600">Max uses (blank = unlimited)</label>
+          <input
+            className="border rounded px-3 py-2 text-sm w-32"
+            inputMode="numeric"
+            value={newMaxUses}
+            onChange={(e) => setNewMaxUses(e.target.value)}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={creating}
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+        >
+          {creating ? "Creating…" : "Create code"}
+        </button>
+      </form>
+
+      {error ? <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">{error}</div> : null}
+
+      <div className="mt-4 border rounded divide-y">
+        {loading && codes.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">Loading…</div>
+        ) : codes.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">No invite codes yet.</div>
+        ) : (
+          codes.map((c) => (
+            <div key={c.code} className="p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono font-medium">{c.code}</span>
+                <span
+                  className={`text-xs px-1.5 rounded ${
+                    c.is_active ? "bg-green-100 text-green-800" : "bg-gray-200 text-gray-700"
+                  }`}
+                >
+                  {c.is_active ? "active" : "inactive"}
+                </span>
+                <span className="text-xs text-gray-600">
+                  {c.uses} / {c.max_uses ?? "∞"} uses
+                  {c.claim_count != null ? ` · ${c.consumed_count ?? 0}/${c.claim_count} claims signed in` : ""}
+                  {c.last_claimed_at ? ` · last ${fmt(c.last_claimed_at)}` : ""}
+                </span>
+
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => updateCode(c.code, { is_active: !c.is_active })}
+                    className="px-2 py-1 rounded border text-xs"
+                  >
+                    {c.is_active ? "Deactivate" : "Reactivate"}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingCode(editingCode === c.code ? null : c.code);
+                      setEditMaxUses(c.max_uses == null ? "" : String(c.max_uses));
+                    }}
+                    className="px-2 py-1 rounded border text-xs"
+                  >
+                    Max uses
+                  </button>
+                  <button onClick={() => toggleClaims(c.code)} className="px-2 py-1 rounded border text-xs">
+                    {openCode === c.code ? "Hide claims" : "Claims"}
+                  </button>
+                </div>
+              </div>
+
+              {editingCode === c.code ? (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    className="border rounded px-2 py-1 text-sm w-32"
+                    inputMode="numeric"
+                    placeholder="unlimited"
+                    value={editMaxUses}
+                    onChange={(e) => setEditMaxUses(e.target.value)}
+                  />
+                  <button
+                    onClick={async () => {
+                      const ok = await updateCode(c.code, { max_uses: editMaxUses.trim() || null });
+                      if (ok) setEditingCode(null);
+                    }}
+                    className="px-2 py-1 rounded bg-blue-600 text-white text-xs"
+                  >
+                    Save
+                  </button>
+                </div>
+              ) : null}
+
+              {openCode === c.code ? (
+                <div className="mt-2 text-xs">
+                  {claimsLoading ? (
+                    <div className="text-gray-600">Loading claims…</div>
+                  ) : claims.length === 0 ? (
+                    <div className="text-gray-600">No claims yet.</div>
+                  ) : (
+                    <table className="w-full text-left">
+                      <thead className="text-gray-500">
+                        <tr>
+                          <th className="py-1 font-normal">Email</th>
+                          <th className="py-1 font-normal">Claimed</th>
+                          <th className="py-1 font-normal">Expires</th>
+                          <th className="py-1 font-normal">Signed in</th>
+                          <th className="py-1 font-normal">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {claims.map((cl) => (
+                          <tr key={cl.id} className="border-t">
+                            <td className="py-1">{cl.email}</td>
+                            <td className="py-1">{fmt(cl.created_at)}</td>
+                            <td className="py-1">{fmt(cl.expires_at)}</td>
+                            <td className="py-1">{fmt(cl.consumed_at)}</td>
+                            <td className="py-1">{cl.status}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          ))
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireAdmin } from "@/lib/auth";
+import { claimStatus, parseMaxUses } from "@/lib/invites";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Ctx = { params: Promise<{ code: string }> };
+
+type Body = { is_active?: boolean; max_uses?: number | string | null };
+
+// One code with its claims (newest first)
+export async function GET(_req: Request, ctx: Ctx) {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  const { code } = await ctx.params;
+  const pool = getPool();
+
+  try {
+    const inv = await pool.query(
+      `select code, is_active, max_uses, uses from invite_codes where code = $1`,
+      [code]
+    );
+    if (inv.rowCount === 0) {
+      return NextResponse.json({ ok: false, error: "Invite code not found" }, { status: 404 });
+    }
+
+    const claims = await pool.query(
+      `
+      select id, email, created_at, expires_at, consumed_at
+      from invite_claims
+      where code = $1
+      order by created_at desc
+      limit 500
+      `,
+      [code]
+    );
+
+    return NextResponse.json({
+      ok: true,
+      code: inv.rows[0],
+      claims: claims.rows.map((row) => ({ ...row, status: claimStatus(row) })),
+    });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
+
+// Deactivate / reactivate, or change max uses (null = unlimited)
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  const { code } = await ctx.params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as Body;
+
+  const sets: string[] = [];
+  const values: unknown[] = [code];
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== "boolean") {
+      return NextResponse.json({ ok: false, error: "is_active must be a boolean" }, { status: 400 });
+    }
+    values.push(body.is_active);
+    sets.push(`is_active = $${values.length}`);
+  }
+
+  if (body.max_uses !== undefined) {
+    const maxUses = parseMaxUses(body.max_uses);
+    if (maxUses === undefined) {
+      return NextResponse.json({ ok: false, error: "max_uses must be a positive integer" }, { status: 400 });
+    }
+    values.push(maxUses);
+    sets.push(`max_uses = $${values.length}`);
+  }
+
+  if (sets.length === 0) {
+    return NextResponse.json({ ok: false, error: "Nothing to update" }, { status: 400 });
+  }
+
+  const pool = getPool();
+
+  try {
+    const res = await pool.query(
+      `
+      update invite_codes set ${sets.join(", ")}
+      where code = $1
+      returning code, is_active, max_uses, uses
+      `,
+      values
+    );
+    if (res.rowCount === 0) {
+      return NextResponse.json({ ok: false, error: "Invite code not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, code: res.rows[0] });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
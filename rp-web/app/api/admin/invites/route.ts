@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireAdmin } from "@/lib/auth";
+import { INVITE_CODE_PATTERN, generateInviteCode, parseMaxUses } from "@/lib/invites";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Body = { code?: string; max_uses?: number | string | null };
+
+export async function GET() {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  const pool = getPool();
+
+  try {
+    const res = await pool.query(
+      `
+      select c.code, c.is_active, c.max_uses, c.uses,
+             count(cl.id)::int as claim_count,
+             count(cl.consumed_at)::int as consumed_count,
+             max(cl.created_at) as last_claimed_at
+      from invite_codes c
+      left join invite_claims cl on cl.code = c.code
+      group by c.code, c.is_active, c.max_uses, c.uses
+      order by last_claimed_at desc nulls last, c.code
+      `
+    );
+
+    return NextResponse.json({ ok: true, codes: res.rows });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const { error } = await requireAdmin();
+  if (error) return error;
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Body;
+
+  const custom = body.code?.trim();
+  if (custom && !INVITE_CODE_PATTERN.test(custom)) {
+    return NextResponse.json(
+      { ok: false, error: "Code must be 3–64 letters, digits, '-' or '_'" },
+      { status: 400 }
+    );
+  }
+
+  const maxUses = parseMaxUses(body.max_uses ?? null);
+  if (maxUses === undefined) {
+    return NextResponse.json({ ok: false, error: "max_uses must be a positive integer" }, { status: 400 });
+  }
+
+  const code = custom || generateInviteCode();
+  const pool = getPool();
+
+  try {
+    const res = await pool.query(
+      `
+      insert into invite_codes (code, is_active, max_uses, uses)
+      values ($1, true, $2, 0)
+      returning code, is_active, max_uses, uses
+      `,
+      [code, maxUses]
+    );
+
+    return NextResponse.json({ ok: true, code: res.rows[0] }, { status: 201 });
+  } catch (err) {
+    if ((err as { code?: string }).code === "23505") {
+      return NextResponse.json({ ok: false, error: "Code already exists" }, { status: 409 });
+    }
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
@@ -1,61 +1,44 @@
 import NextAuth from "next-auth";
-import EmailProvider from "next-auth/providers/email";
-import PostgresAdapter from "@auth/pg-adapter";
-import { getPool } from "@/lib/pg";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { type RateLimitRule, clientIp, hitRateLimits } from "@/lib/rate-limit";
 
 export const runtime = "nodejs";
 
-const pool = getPool();
-
-const authHandler = NextAuth({
-  adapter: PostgresAdapter(pool),
-  providers: [
-    EmailProvider({
-      server: process.env.EMAIL_SERVER,
-      from: process.env.EMAIL_FROM,
-    }),
-  ],
-  pages: { signIn: "/signin", error: "/signin" },
-  callbacks: {
-    async signIn({ user, account }) {
-      const provider = account?.provider;
-      if (provider !== "email") return true;
-
-      const email = user.email?.trim().toLowerCase();
-      if (!email) return false;
-
-      const client = await pool.connect();
-      try {
-        const claim = await client.query(
-		  `
-		  select id, consumed_at
-		  from invite_claims
-		  where email = $1
-			and expires_at > now()
-			and (consumed_at is null or consumed_at > now() - interval '15 minutes')
-		  order by created_at desc
-		  limit 1
-		  `,
-		  [email]
-		);
-
-		if ((claim.rowCount ?? 0) === 0) return false;
-
-		// Only consume if it's not already consumed
-		if (!claim.rows[0].consumed_at) {
-		  await client.query(
-			`update invite_claims set consumed_at = now() where id = $1 and consumed_at is null`,
-			[claim.rows[0].id]
-		  );
-		}
-
-		return true;
-
-      } finally {
-        client.release();
-      }
-    },
-  },
-});
-
-export { authHandler as GET, authHandler as POST };
+const authHandler = NextAuth(authOptions);
+
+type Ctx = { params: Promise<{ nextauth: string[] }> };
+
+const MAGIC_LINKS_PER_EMAIL: RateLimitRule = { bucket: "magic:email", limit: 3, windowSeconds: 15 * 60 };
+const MAGIC_LINKS_PER_IP: RateLimitRule = { bucket: "magic:ip", limit: 10, windowSeconds: 15 * 60 };
+
+// Throttle magic-link emails before NextAuth sends them.
+// The client's signIn() expects JSON with an absolute `url` carrying `error`.
+async function limitMagicLinks(req: Request) {
+  const form = await req.clone().formData().catch(() => null);
+  const email = form?.get("email")?.toString().trim().toLowerCase() || null;
+
+  const limited = await hitRateLimits([
+    [MAGIC_LINKS_PER_IP, clientIp(req)],
+    [MAGIC_LINKS_PER_EMAIL, email],
+  ]);
+  if (limited.ok) return null;
+
+  const url = new URL("/signin", req.url);
+  url.searchParams.set("error", "RateLimited");
+
+  return NextResponse.json(
+    { url: url.toString(), error: "RateLimited", retry_after: limited.retryAfter },
+    { status: 429, headers: { "Retry-After": String(limited.retryAfter) } }
+  );
+}
+
+async function POST(req: Request, ctx: Ctx) {
+  if (new URL(req.url).pathname.endsWith("/signin/email")) {
+    const limited = await limitMagicLinks(req);
+    if (limited) return limited;
+  }
+  return authHandler(req, ctx);
+}
+
+export { authHandler as GET, POST };
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const { id } = await ctx.params;
+
+  try {
+    // id::text so a malformed id is just "not found", not a cast error
+    const res = await getPool().query(
+      `delete from generation_presets where id::text = $1 and user_id = $2`,
+      [id, user.id]
+    );
+    if (res.rowCount === 0) {
+      return NextResponse.json({ ok: false, error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
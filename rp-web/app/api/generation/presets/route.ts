@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+import { generationFromRaw } from "@/lib/generation";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+const MAX_PRESETS = 50;
+
+type Body = { name?: string; settings?: unknown };
+
+// Saves a preset; a preset with the same name is overwritten.
+export async function POST(req: Request) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Body;
+  const name = typeof body.name === "string" ? body.name.trim().slice(0, 80) : "";
+  if (!name) {
+    return NextResponse.json({ ok: false, error: "Preset name is required" }, { status: 400 });
+  }
+
+  const settings = generationFromRaw(body.settings);
+  const pool = getPool();
+
+  try {
+    const count = await pool.query(
+      `select count(*)::int as n from generation_presets where user_id = $1 and name <> $2`,
+      [user.id, name]
+    );
+    if (count.rows[0].n >= MAX_PRESETS) {
+      return NextResponse.json({ ok: false, error: "Too many presets" }, { status: 409 });
+    }
+
+    const res = await pool.query(
+      `
+      insert into generation_presets (user_id, name, settings)
+      values ($1, $2, $3)
+      on conflict (user_id, name) do update set settings = excluded.settings, updated_at = now()
+      returning id, name, settings, updated_at
+      `,
+      [user.id, name, JSON.stringify(settings)]
+    );
+
+    return NextResponse.json({ ok: true, preset: { ...res.rows[0], settings } });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
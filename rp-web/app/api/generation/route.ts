@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+import { generationFromRaw } from "@/lib/generation";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+// The user's default generation settings (null = never saved) and presets
+export async function GET() {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const pool = getPool();
+
+  try {
+    const settings = await pool.query(`select generation from user_settings where user_id = $1`, [
+      user.id,
+    ]);
+    const presets = await pool.query(
+      `
+      select id, name, settings, updated_at
+      from generation_presets
+      where user_id = $1
+      order by name
+      `,
+      [user.id]
+    );
+
+    const saved = settings.rows[0]?.generation;
+    return NextResponse.json({
+      ok: true,
+      defaults: saved ? generationFromRaw(saved) : null,
+      presets: presets.rows.map((p) => ({ ...p, settings: generationFromRaw(p.settings) })),
+    });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
+
+// Replace the user's defaults: { defaults: GenerationSettings }
+export async function PUT(req: Request) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as { defaults?: unknown };
+  if (!body.defaults || typeof body.defaults !== "object") {
+    return NextResponse.json({ ok: false, error: "defaults must be an object" }, { status: 400 });
+  }
+
+  const defaults = generationFromRaw(body.defaults);
+
+  try {
+    await getPool().query(
+      `
+      insert into user_settings (user_id, generation, updated_at)
+      values ($1, $2, now())
+      on conflict (user_id) do update set generation = excluded.generation, updated_at = now()
+      `,
+      [user.id, JSON.stringify(defaults)]
+    );
+
+    return NextResponse.json({ ok: true, defaults });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
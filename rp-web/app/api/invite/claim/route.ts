@@ -1,10 +1,33 @@
 import { NextResponse } from "next/server";
 import { getPool } from "@/lib/pg";
+import {
+  type LockoutRule,
+  type RateLimitRule,
+  checkLockout,
+  clearFailures,
+  clientIp,
+  hitRateLimits,
+  recordFailure,
+  tooManyRequests,
+} from "@/lib/rate-limit";
 
 export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
 
 type Body = { email?: string; code?: string };
 
+const CLAIMS_PER_IP: RateLimitRule = { bucket: "claim:ip", limit: 10, windowSeconds: 10 * 60 };
+const CLAIMS_PER_EMAIL: RateLimitRule = { bucket: "claim:email", limit: 5, windowSeconds: 10 * 60 };
+const CLAIMS_PER_CODE: RateLimitRule = { bucket: "claim:code", limit: 30, windowSeconds: 10 * 60 };
+
+// Repeated invalid codes: 5 free tries, then 1 min, 2 min, 4 min… up to a day
+const INVALID_CODE_LOCKOUT: LockoutRule = {
+  bucket: "claim:invalid",
+  threshold: 5,
+  baseLockSeconds: 60,
+  maxLockSeconds: 24 * 60 * 60,
+  resetAfterSeconds: 24 * 60 * 60,
+};
+
 function normEmail(email: string) {
   return email.trim().toLowerCase();
 }
@@ -18,6 +41,29 @@ export async function POST(req: Request) {
 
   const e = normEmail(email);
   const c = code.trim();
+  const ip = clientIp(req);
+
+  // Lockout is keyed by IP and by email+IP. Never by email alone: anyone
+  // could then lock a victim's address out by guessing codes for it. The
+  // per-email sliding window still caps guesses from rotating IPs.
+  const lockKeys = ip ? [`ip:${ip}`, `email-ip:${e}|${ip}`] : [];
+
+  try {
+    for (const key of lockKeys) {
+      const locked = await checkLockout(INVALID_CODE_LOCKOUT, key);
+      if (!locked.ok) return tooManyRequests(locked.retryAfter);
+    }
+
+    const limited = await hitRateLimits([
+      [CLAIMS_PER_IP, ip],
+      [CLAIMS_PER_EMAIL, e],
+      [CLAIMS_PER_CODE, c],
+    ]);
+    if (!limited.ok) return tooManyRequests(limited.retryAfter);
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
 
   const pool = getPool();
   const client = await pool.connect();
@@ -58,6 +104,7 @@ export async function POST(req: Request) {
 
     if (inv.rowCount === 0) {
       await client.query("ROLLBACK");
+      await Promise.all(lockKeys.map((key) => recordFailure(INVALID_CODE_LOCKOUT, key)));
       return NextResponse.json({ ok: false, error: "Invalid invite code" }, { status: 401 });
     }
 
@@ -86,6 +133,7 @@ export async function POST(req: Request) {
     );
 
     await client.query("COMMIT");
+    await Promise.all(lockKeys.map((key) => clearFailures(INVALID_CODE_LOCKOUT, key)));
     return NextResponse.json({ ok: true, reused: false });
   } catch (err) {
     await client.query("ROLLBACK");
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+import {
+  LIBRARY_COLUMNS,
+  LIBRARY_ID_PATTERN,
+  LIBRARY_MAX_ITEMS,
+  withLibraryLock,
+} from "@/lib/library";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// Copies an item as "<name> (copy)"
+export async function POST(_req: Request, ctx: Ctx) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const { id } = await ctx.params;
+  const notFound = NextResponse.json({ ok: false, error: "Library item not found" }, { status: 404 });
+  if (!LIBRARY_ID_PATTERN.test(id)) return notFound;
+
+  try {
+    const res = await withLibraryLock(user.id, (client) =>
+      client.query(
+        `
+        insert into library_items (user_id, kind, name, sheet)
+        select user_id, kind, left(name || ' (copy)', 200), sheet
+        from library_items src
+        where id = $1 and user_id = $2
+          and (select count(*) from library_items where user_id = $2 and kind = src.kind) < $3
+        returning ${LIBRARY_COLUMNS}
+        `,
+        [id, user.id, LIBRARY_MAX_ITEMS]
+      )
+    );
+
+    if (res.rowCount === 0) {
+      const exists = await getPool().query(`select 1 from library_items where id = $1 and user_id = $2`, [
+        id,
+        user.id,
+      ]);
+      if (exists.rowCount === 0) return notFound;
+      return NextResponse.json({ ok: false, error: "Library is full" }, { status: 409 });
+    }
+
+    return NextResponse.json({ ok: true, item: res.rows[0] }, { status: 201 });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+import { LIBRARY_COLUMNS, LIBRARY_ID_PATTERN, libraryItemName, sheetForKind } from "@/lib/library";
+import type { LibraryKind } from "@/lib/rp-types";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Ctx = { params: Promise<{ id: string }> };
+
+type Body = { name?: string; sheet?: unknown };
+
+function notFound() {
+  return NextResponse.json({ ok: false, error: "Library item not found" }, { status: 404 });
+}
+
+// Overwrite the sheet and/or rename
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const { id } = await ctx.params;
+  if (!LIBRARY_ID_PATTERN.test(id)) return notFound();
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Body;
+  const pool = getPool();
+
+  try {
+    const current = await pool.query(
+      `select kind, sheet from library_items where id = $1 and user_id = $2`,
+      [id, user.id]
+    );
+    if (current.rowCount === 0) return notFound();
+
+    const kind = current.rows[0].kind as LibraryKind;
+    const sheet = sheetForKind(kind, body.sheet !== undefined ? body.sheet : current.rows[0].sheet);
+    const name = libraryItemName(body.name, sheet);
+    if (!name) {
+      return NextResponse.json({ ok: false, error: "Give the sheet a name first" }, { status: 400 });
+    }
+
+    const res = await pool.query(
+      `
+      update library_items
+      set name = $3, sheet = $4, updated_at = now()
+      where id = $1 and user_id = $2
+      returning ${LIBRARY_COLUMNS}
+      `,
+      [id, user.id, name, JSON.stringify(sheet)]
+    );
+    if (res.rowCount === 0) return notFound();
+
+    return NextResponse.json({ ok: true, item: res.rows[0] });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const { id } = await ctx.params;
+  if (!LIBRARY_ID_PATTERN.test(id)) return notFound();
+
+  try {
+    const res = await getPool().query(`delete from library_items where id = $1 and user_id = $2`, [
+      id,
+      user.id,
+    ]);
+    if (res.rowCount === 0) return notFound();
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+import { requireUser } from "@/lib/auth";
+import {
+  LIBRARY_COLUMNS,
+  LIBRARY_MAX_ITEMS,
+  isLibraryKind,
+  libraryItemName,
+  sheetForKind,
+  withLibraryLock,
+} from "@/lib/library";
+
+export const runtime = "nodejs"; // IMPORTANT: pg requires Node runtime (not edge)
+
+type Body = { kind?: string; name?: string; sheet?: unknown };
+
+// The signed-in user's saved characters and personas (?kind= to filter)
+export async function GET(req: Request) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const kind = new URL(req.url).searchParams.get("kind");
+  if (kind && !isLibraryKind(kind)) {
+    return NextResponse.json({ ok: false, error: "kind must be character or persona" }, { status: 400 });
+  }
+
+  try {
+    const res = await getPool().query(
+      `
+      select ${LIBRARY_COLUMNS}
+      from library_items
+      where user_id = $1 and ($2::text is null or kind = $2)
+      order by updated_at desc
+      `,
+      [user.id, kind]
+    );
+
+    return NextResponse.json({ ok: true, items: res.rows });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const { user, error } = await requireUser();
+  if (error) return error;
+
+  const body = ((await req.json().catch(() => null)) ?? {}) as Body;
+  if (!isLibraryKind(body.kind)) {
+    return NextResponse.json({ ok: false, error: "kind must be character or persona" }, { status: 400 });
+  }
+
+  const sheet = sheetForKind(body.kind, body.sheet);
+  const name = libraryItemName(body.name, sheet);
+  if (!name) {
+    return NextResponse.json({ ok: false, error: "Give the sheet a name first" }, { status: 400 });
+  }
+
+  try {
+    const item = await withLibraryLock(user.id, async (client) => {
+      const count = await client.query(
+        `select count(*)::int as n from library_items where user_id = $1 and kind = $2`,
+        [user.id, body.kind]
+      );
+      if (count.rows[0].n >= LIBRARY_MAX_ITEMS) return null;
+
+      const res = await client.query(
+        `
+        insert into library_items (user_id, kind, name, sheet)
+        values ($1, $2, $3, $4)
+        returning ${LIBRARY_COLUMNS}
+        `,
+        [user.id, body.kind, name, JSON.stringify(sheet)]
+      );
+      return res.rows[0];
+    });
+
+    if (!item) {
+      return NextResponse.json({ ok: false, error: "Library is full" }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, item }, { status: 201 });
+  } catch (err) {
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Server error" }, { status: 500 });
+  }
+}
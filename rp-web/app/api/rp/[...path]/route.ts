@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getVerifiedEmail } from "@/lib/auth";
+import { proxyToBackend } from "@/lib/backend";
+
+export const runtime = "nodejs"; // pg (via NextAuth adapter) requires Node runtime
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ path: string[] }> };
+
+// Only these top-level backend resources are reachable through the proxy.
+const ALLOWED_ROOTS = new Set(["sessions", "messages", "chat_stream", "worlds", "search"]);
+
+async function handle(req: Request, ctx: Ctx) {
+  const email = await getVerifiedEmail();
+  if (!email) {
+    return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 });
+  }
+
+  const { path } = await ctx.params;
+  if (!path?.length || !ALLOWED_ROOTS.has(path[0]) || path.some((p) => p === ".." || p === ".")) {
+    return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    return await proxyToBackend(req, path.map(encodeURIComponent).join("/"), email);
+  } catch (err) {
+    if (req.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error(err);
+    return NextResponse.json({ ok: false, error: "Backend unavailable" }, { status: 502 });
+  }
+}
+
+export { handle as GET, handle as POST, handle as PATCH, handle as DELETE };
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -17,6 +17,13 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "ECHOVERSE",
   description: "EchoVerse — immersive, realism-first AI roleplay",
+  appleWebApp: { capable: true, title: "EchoVerse", statusBarStyle: "default" },
+};
+
+// viewport-fit=cover so env(safe-area-inset-*) is non-zero when installed
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
+  viewportFit: "cover",
 };
 
 export default function RootLayout({
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest (served at /manifest.webmanifest) so the chat can be
+// installed to the home screen; offline support is in public/sw.js.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "EchoVerse",
+    short_name: "EchoVerse",
+    description: "EchoVerse — immersive, realism-first AI roleplay",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#2563eb",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+    ],
+  };
+}
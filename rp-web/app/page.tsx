@@ -1,119 +1,366 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
 import { useSession } from "next-auth/react";
-
-type ChatMessage = {
-  role: "user" | "assistant";
-  content: string;
+import CastPanel from "@/components/CastPanel";
+import CharacterCardActions from "@/components/CharacterCardActions";
+import GenerationPanel from "@/components/GenerationPanel";
+import LibraryPicker from "@/components/LibraryPicker";
+import LorebookPanel from "@/components/LorebookPanel";
+import MemoryPanel from "@/components/MemoryPanel";
+import ReplyInfo from "@/components/ReplyInfo";
+import RichMessage from "@/components/RichMessage";
+import SearchPanel from "@/components/SearchPanel";
+import SessionRow from "@/components/SessionRow";
+import SpeakerAvatar from "@/components/SpeakerAvatar";
+import WorldsPanel from "@/components/WorldsPanel";
+import { useVirtualList } from "@/lib/virtual-list";
+import { loreFromState, matchLore } from "@/lib/lorebook";
+import { characterFromRaw, emptyCharacter, emptyPlayer, playerFromRaw } from "@/lib/sheets";
+import {
+  exportTranscript,
+  parseTranscript,
+  type ImportedTranscript,
+  type TranscriptExportOptions,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+import { downloadBlob, fileSlug } from "@/lib/download";
+import { defaultGeneration, generationForRequest, generationFromRaw } from "@/lib/generation";
+import { isTruncated, mergeStats, statsFromRaw, usageFromPayload } from "@/lib/reply-stats";
+import { emptyMemory, gistOf, memoryFromState, newMemoryEntry } from "@/lib/memory";
+import { MESSAGE_KINDS, isMessageKind, parseSlashCommand } from "@/lib/message-kinds";
+import {
+  LEAD_ID,
+  castFromState,
+  emptyCast,
+  isGroupScene,
+  nextSpeaker,
+  speakersOf,
+  type Speaker,
+} from "@/lib/cast";
+import {
+  searchQueryString,
+  searchResultFromRaw,
+  searchTerms,
+  type SearchFilters,
+  type SearchResult,
+} from "@/lib/search";
+import {
+  claimOfflineData,
+  newQueuedMessage,
+  readDraft,
+  readOutbox,
+  writeDraft,
+  writeOutbox,
+  type QueuedMessage,
+} from "@/lib/offline";
+import { SSEDecoder, parseEventData } from "@/lib/sse";
+import {
+  DEFAULT_WORLD_NAME,
+  type BranchItem,
+  type CharacterSheet,
+  type ChatMessage,
+  type GenerationPreset,
+  type GenerationSettings,
+  type LibraryItem,
+  type LibraryKind,
+  type LoreEntry,
+  type MessageKind,
+  type ReplyStats,
+  type SceneCast,
+  type SessionMemory,
+  type SpeakerMode,
+  type PlayerSheet,
+  type SessionItem,
+  type SetupSnapshot,
+  type WorldDraft,
+  type WorldItem,
+} from "@/lib/rp-types";
+
+// Why a stream was aborted: the user pressed Stop, or the session changed /
+// the page unmounted (in which case nothing may be written to `messages`).
+type StreamAbortReason = "stop" | "switch";
+
+// Same-origin proxy (app/api/rp/*): the server adds the access key and the
+// verified user email, so neither lives in the client bundle.
+const RP_API = "/api/rp";
+
+const JSON_HEADERS = { "Content-Type": "application/json" };
+// Character / persona library (Postgres, served by this app, not the RP backend)
+const LIBRARY_API = "/api/library";
+// User-level generation defaults and presets (also served by this app)
+const GENERATION_API = "/api/generation";
+
+// Speaker picker shown above the input in group scenes
+type SceneControls = {
+  // Present characters only
+  speakers: Speaker[];
+  mode: SpeakerMode;
+  // Manual mode: the chosen speaker; otherwise who is expected to reply
+  // (auto mode can change that based on names in the message)
+  nextId: string | null;
+  onPick: (id: string) => void;
 };
 
-type SSEEvent = {
-  event: string;
-  data: any;
-};
+// Keyed by session: the draft is saved per session and restored on return.
+const InputBar = React.memo(function InputBar(props: {
+  sessionId: string | null;
+  loading: boolean;
+  scene: SceneControls | null;
+  onSend: (text: string, kind: MessageKind) => void;
+  onStop: () => void;
+}) {
+  const { sessionId, loading, scene, onSend, onStop } = props;
+  // Restored after mount (localStorage isn't there during server render)
+  const [text, setText] = useState("");
+  // Sticky mode; a /command prefix overrides it for one message
+  const [mode, setMode] = useState<MessageKind>("say");
 
-type SessionItem = {
-  id: string;
-  title: string;
-  world_name: string;
-  updated_at: string | null;
-  archived: boolean;
-};
+  useEffect(() => {
+    setText(readDraft(sessionId));
+  }, [sessionId]);
+
+  const send = () => {
+    const trimmed = text.trim();
+    if (!trimmed || loading) return;
+    const parsed = parseSlashCommand(trimmed, mode);
+    if (!parsed.text) return;
+    onSend(parsed.text, parsed.kind);
+    setText("");
+    writeDraft(sessionId, "");
+  };
 
-type CharacterSheet = {
-  name: string;
-  description: string;
-  personality: string;
-  style: string;
-  rules: string;
-};
+  return (
+    <div
+      className="border-t bg-white px-3 py-2 fixed bottom-0 left-0 right-0 max-w-md mx-auto lg:static lg:max-w-none lg:mx-0"
+      style={{ paddingBottom: "calc(env(safe-area-inset-bottom) + 8px)" }}
+    >
+      {scene ? (
+        <div className="mb-2 flex items-center gap-1 overflow-x-auto text-xs">
+          <span className="shrink-0 text-gray-600">
+            {scene.mode === "manual" ? "Reply as:" : scene.mode === "auto" ? "Auto, likely:" : "Next:"}
+          </span>
+          {scene.speakers.length === 0 ? (
+            <span className="text-amber-700">Nobody is in the scene (see Cast)</span>
+          ) : (
+            scene.speakers.map((sp) => (
+              <button
+                key={sp.id}
+                onClick={() => scene.onPick(sp.id)}
+                disabled={scene.mode !== "manual"}
+                className={`shrink-0 inline-flex items-center gap-1 rounded-full border px-2 py-0.5 ${
+                  sp.id === scene.nextId ? "bg-gray-200 border-gray-400" : "text-gray-600"
+                }`}
+              >
+                <SpeakerAvatar speaker={sp} />
+                {sp.name}
+              </button>
+            ))
+          )}
+        </div>
+      ) : null}
+      <div className="flex gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as MessageKind)}
+          className="h-11 border rounded px-1 text-sm bg-white"
+          aria-label="Message type"
+          title={MESSAGE_KINDS.find((k) => k.kind === mode)?.hint}
+        >
+          {MESSAGE_KINDS.map((k) => (
+            <option key={k.kind} value={k.kind}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        <textarea
+          className="flex-1 border rounded px-3 py-2 min-h-11 max-h-28 overflow-y-auto text-base leading-5 resize-none bg-white text-black placeholder:text-gray-500"
+          placeholder={
+            mode === "say"
+              ? "Type a message… (/me, /ooc, /narrate; Cmd/Ctrl+Enter = send)"
+              : `${MESSAGE_KINDS.find((k) => k.kind === mode)?.hint}… (Cmd/Ctrl+Enter = send)`
+          }
+          value={text}
+          disabled={loading}
+          rows={1}
+          onChange={(e) => {
+            setText(e.target.value);
+            writeDraft(sessionId, e.target.value);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              send();
+            }
+          }}
+        />
+        {loading ? (
+          <button
+            onClick={onStop}
+            className="px-4 h-11 rounded bg-gray-800 text-white text-base"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={send}
+            className="px-4 h-11 rounded bg-blue-600 text-white text-base disabled:opacity-50"
+          >
+            Send
+          </button>
+        )}
+      </div>
+    </div>
+  );
+});
 
-type PlayerSheet = {
-  name: string;
-  description: string;
-  notes: string;
-};
+// Bubble look per message type: OOC and director turns sit outside the story.
+function bubbleClass(m: ChatMessage) {
+  if (m.kind === "ooc") return "bg-white text-gray-700 border border-dashed text-sm mx-auto";
+  if (m.kind === "narrate") return "bg-amber-50 text-amber-900 border border-amber-200 text-sm italic mx-auto";
+  const side = m.role === "user" ? "bg-blue-500 text-white ml-auto" : "bg-gray-200 text-gray-900 mr-auto";
+  return m.kind === "me" ? `${side} italic` : side;
+}
 
-function parseSSE(buffer: string): { events: SSEEvent[]; rest: string } {
-  const parts = buffer.split("\n\n");
-  const rest = parts.pop() ?? "";
-  const events: SSEEvent[] = [];
+// Name and avatar on an assistant bubble in a group scene. Untagged replies
+// are the Setup character's; the name stored on the message wins, so
+// replies keep the name they were written under.
+function bubbleSpeaker(m: ChatMessage, speakerById: Map<string, Speaker>) {
+  const known = m.speaker_id || !m.speaker_name ? speakerById.get(m.speaker_id ?? LEAD_ID) : undefined;
+  return { name: m.speaker_name ?? known?.name ?? "", avatar: known?.avatar ?? "" };
+}
 
-  for (const part of parts) {
-    const lines = part.split("\n").filter(Boolean);
+const KIND_LABELS: Partial<Record<MessageKind, string>> = { ooc: "OOC", narrate: "Director" };
 
-    let event = "message";
-    let dataLine = "";
+// Writes the streamed text into the message, and into the selected candidate
+// when the message holds alternatives.
+function withReplyText(m: ChatMessage, content: string): ChatMessage {
+  if (!m.candidates) return { ...m, content };
+  const candidates = [...m.candidates];
+  candidates[m.selected ?? candidates.length - 1] = content;
+  return { ...m, content, candidates };
+}
 
-    for (const line of lines) {
-      if (line.startsWith("event:")) event = line.slice(6).trim();
-      if (line.startsWith("data:")) dataLine += line.slice(5).trim();
-    }
+// Backend rows may carry candidates/selected; keep `content` in sync with them.
+function normalizeMessage(m: ChatMessage): ChatMessage {
+  if (!m.candidates?.length) return m;
+  const selected = Math.min(Math.max(m.selected ?? 0, 0), m.candidates.length - 1);
+  return { ...m, selected, content: m.candidates[selected] ?? "" };
+}
 
-    if (!dataLine) continue;
+const MESSAGE_PAGE_SIZE = 50;
+// Export gives up after this many pages (10,000 messages)
+const EXPORT_MAX_PAGES = 200;
 
-    try {
-      events.push({ event, data: JSON.parse(dataLine) });
-    } catch {
-      events.push({ event, data: dataLine });
-    }
+// Tailwind's `lg`: sidebar + chat + sheet panel instead of the Menu modal
+const WIDE_SCREEN = "(min-width: 1024px)";
+
+// How far back "jump to message" pages through history looking for it
+const JUMP_MAX_PAGES = 20;
+
+// Reconnect attempts for a dropped chat_stream (resumed via Last-Event-ID)
+const STREAM_MAX_RESUMES = 5;
+
+type StreamPayload = Record<string, unknown>;
+
+function asPayload(data: unknown): StreamPayload {
+  return data && typeof data === "object" ? (data as StreamPayload) : {};
+}
+
+// The connection went away mid-stream (as opposed to an HTTP or backend error).
+class StreamDroppedError extends Error {}
+
+function waitFor(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const t = window.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Speaker fields may come back as character_id / character_name (the names
+// chat_stream uses)
+function messageFromRow(m: ChatMessage & { character_id?: unknown; character_name?: unknown }): ChatMessage {
+  const { character_id, character_name, ...rest } = m;
+  const speakerId = m.speaker_id ?? character_id;
+  const speakerName = m.speaker_name ?? character_name;
+  return normalizeMessage({
+    ...rest,
+    stats: statsFromRaw(m.stats),
+    kind: isMessageKind(m.kind) && m.kind !== "say" ? m.kind : undefined,
+    speaker_id: typeof speakerId === "string" && speakerId ? speakerId : undefined,
+    speaker_name: typeof speakerName === "string" && speakerName ? speakerName : undefined,
+  });
+}
+
+// GET /messages returns either a bare array (oldest first, the whole
+// history: that backend doesn't paginate) or { messages, next_cursor }.
+// Returns the cursor for the next older page, or null at the beginning.
+function parseMessagePage(data: unknown): { messages: ChatMessage[]; cursor: string | null } {
+  if (Array.isArray(data)) {
+    return { messages: (data as ChatMessage[]).map(messageFromRow), cursor: null };
   }
 
-  return { events, rest };
+  const obj = (data ?? {}) as { messages?: ChatMessage[]; next_cursor?: string | null };
+  return {
+    messages: (obj.messages ?? []).map(messageFromRow),
+    cursor: obj.next_cursor ?? null,
+  };
 }
 
-const InputBar = React.memo(function InputBar(props: {
-  loading: boolean;
-  onSend: (text: string) => void;
-}) {
-  const { loading, onSend } = props;
-  const [text, setText] = useState("");
+const DEFAULT_SESSION_TITLE = "New session";
 
-  return (
-    <div
-      className="border-t bg-white px-3 py-2 flex gap-2 fixed bottom-0 left-0 right-0 max-w-md mx-auto"
-      style={{ paddingBottom: "calc(env(safe-area-inset-bottom) + 8px)" }}
-    >
-      <textarea
-        className="flex-1 border rounded px-3 py-2 min-h-11 max-h-28 overflow-y-auto text-base leading-5 resize-none bg-white text-black placeholder:text-gray-500"
-        placeholder="Type a message… (Enter = new line, Cmd/Ctrl+Enter = send)"
-        value={text}
-        disabled={loading}
-        rows={1}
-        onChange={(e) => setText(e.target.value)}
-        onKeyDown={(e) => {
-          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
-            e.preventDefault();
-            const trimmed = text.trim();
-            if (!trimmed || loading) return;
-            onSend(trimmed);
-            setText("");
-          }
-        }}
-      />
-      <button
-        onClick={() => {
-          const trimmed = text.trim();
-          if (!trimmed || loading) return;
-          onSend(trimmed);
-          setText("");
-        }}
-        disabled={loading}
-        className="px-4 h-11 rounded bg-blue-600 text-white text-base disabled:opacity-50"
-      >
-        Send
-      </button>
-    </div>
-  );
-});
+// Short title from the opening line of a story, e.g. for auto-titling.
+function titleFromText(text: string) {
+  const words = text.replace(/[*_"“”]/g, "").replace(/\s+/g, " ").trim().split(" ");
+  const title = words.slice(0, 8).join(" ");
+  return title.length > 60 ? `${title.slice(0, 57)}…` : title;
+}
+
+// state_json may arrive as an object or as a JSON string, and may be missing
+// any of the fields (older sessions, partial saves).
+function stateObject(raw: unknown): Record<string, unknown> {
+  let state: unknown = raw;
+  if (typeof state === "string") {
+    try {
+      state = JSON.parse(state);
+    } catch {
+      state = null;
+    }
+  }
+  return (state && typeof state === "object" ? state : {}) as Record<string, unknown>;
+}
 
-function emptyCharacter(): CharacterSheet {
-  return { name: "", description: "", personality: "", style: "", rules: "" };
+function setupFromState(raw: unknown): SetupSnapshot {
+  const obj = stateObject(raw);
+  return { character: characterFromRaw(obj.character), player: playerFromRaw(obj.player) };
 }
 
-function emptyPlayer(): PlayerSheet {
-  return { name: "", description: "", notes: "" };
+// navigator.onLine as a store, so the server render (always "online") and
+// hydration agree before the real value is picked up
+function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
 }
 
 export default function Page() {
@@ -125,20 +372,111 @@ export default function Page() {
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  // Session whose latest history page has loaded (queued sends wait for it)
+  const [historySessionId, setHistorySessionId] = useState<string | null>(null);
+
+  // Offline: messages written meanwhile wait in the outbox (persisted) and are
+  // sent in order once the connection is back
+  const online = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+  const [outbox, setOutbox] = useState<QueuedMessage[]>([]);
+  // Outbox entry being sent right now (shown as a normal message meanwhile)
+  const [sendingQueuedId, setSendingQueuedId] = useState<string | null>(null);
 
-  const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:8000";
-  const ACCESS_KEY = process.env.NEXT_PUBLIC_ACCESS_KEY!;
+  // Older-history pagination. Row keys are `messageKeyBase + index`; the base
+  // moves down when older pages are prepended so existing rows keep their keys.
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [messageKeyBase, setMessageKeyBase] = useState(0);
 
-  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Opened at /s/<id>: start on that session instead of the last-used one
+  const params = useParams<{ sessionId?: string }>();
+  const [sessionId, setSessionId] = useState<string | null>(params.sessionId ?? null);
 
   // Modal + sessions UI
   const [menuOpen, setMenuOpen] = useState(false);
-  const [menuView, setMenuView] = useState<"sessions" | "setup">("sessions");
+  const [menuView, setMenuView] = useState<
+    "sessions" | "search" | "setup" | "cast" | "lore" | "memory" | "generation" | "worlds"
+  >(
+    "sessions"
+  );
 
   const [sessions, setSessions] = useState<SessionItem[]>([]);
   const [sessionsLoading, setSessionsLoading] = useState(false);
   const [sessionsError, setSessionsError] = useState<string | null>(null);
 
+  const [sessionFilter, setSessionFilter] = useState<"active" | "archived">("active");
+  const [archivedSessions, setArchivedSessions] = useState<SessionItem[]>([]);
+  const [worldFilter, setWorldFilter] = useState<string>("");
+
+  // Search tab: the last search, its results so far and where the next page
+  // starts
+  const [search, setSearch] = useState<{ query: string; filters: SearchFilters } | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchCursor, setSearchCursor] = useState<string | null>(null);
+  const [searchBusy, setSearchBusy] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Message to scroll to and highlight once its history has loaded
+  const [jumpToId, setJumpToId] = useState<string | null>(null);
+
+  // Worlds
+  const [worlds, setWorlds] = useState<WorldItem[]>([]);
+  const [worldsLoading, setWorldsLoading] = useState(false);
+  const [worldsError, setWorldsError] = useState<string | null>(null);
+  // Last picked world (restored after mount)
+  const [selectedWorldId, setSelectedWorldId] = useState<string | null>(null);
+
+  // Saved characters and personas, and which ones "New session" starts with
+  const [library, setLibrary] = useState<LibraryItem[]>([]);
+  const [libraryBusy, setLibraryBusy] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [newSessionCharacterId, setNewSessionCharacterId] = useState("");
+  const [newSessionPersonaId, setNewSessionPersonaId] = useState("");
+
+  // Group scene cast from session state, and who the user picked to reply
+  // next in manual mode
+  const [cast, setCast] = useState<SceneCast>(emptyCast());
+  const [savedCast, setSavedCast] = useState<SceneCast>(emptyCast());
+  const [castSaving, setCastSaving] = useState(false);
+  const [castError, setCastError] = useState<string | null>(null);
+  const [castSavedMsg, setCastSavedMsg] = useState<string | null>(null);
+  const [manualSpeakerId, setManualSpeakerId] = useState<string | null>(null);
+
+  // Session memory (summary, facts, relationships) from session state
+  const [memory, setMemory] = useState<SessionMemory>(emptyMemory());
+  const [savedMemory, setSavedMemory] = useState<SessionMemory>(emptyMemory());
+  const [memorySaving, setMemorySaving] = useState(false);
+  const [memoryError, setMemoryError] = useState<string | null>(null);
+  const [memorySavedMsg, setMemorySavedMsg] = useState<string | null>(null);
+  // Message just added via "remember this" (for the ✓)
+  const [rememberedId, setRememberedId] = useState<string | null>(null);
+
+  // Generation settings: the session's own (null = follows the user's
+  // defaults), the user's defaults (null = backend defaults) and presets
+  const [sessionGeneration, setSessionGeneration] = useState<GenerationSettings | null>(null);
+  const [generationDefaults, setGenerationDefaults] = useState<GenerationSettings | null>(null);
+  const [generationPresets, setGenerationPresets] = useState<GenerationPreset[]>([]);
+  const [generationDraft, setGenerationDraft] = useState<GenerationSettings>(defaultGeneration());
+  const [generationBusy, setGenerationBusy] = useState(false);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [generationSavedMsg, setGenerationSavedMsg] = useState<string | null>(null);
+
+  // Wide screens: the right-hand character/player sheet panel (open unless
+  // closed last time; loaded after mount)
+  const [setupPanelOpen, setSetupPanelOpen] = useState(true);
+
+  // Styled RP markup (actions, dialogue, OOC…) vs. raw text; the saved
+  // choice is loaded after mount
+  const [richText, setRichText] = useState(true);
+
+  // Title new sessions from their opening line (saved choice loaded after
+  // mount)
+  const [autoTitle, setAutoTitle] = useState(true);
+
   // Setup state
   const [setupLoading, setSetupLoading] = useState(false);
   const [setupError, setSetupError] = useState<string | null>(null);
@@ -147,33 +485,118 @@ export default function Page() {
   const [character, setCharacter] = useState<CharacterSheet>(emptyCharacter());
   const [player, setPlayer] = useState<PlayerSheet>(emptyPlayer());
 
+  // Last state known to be saved on the backend (what the RP is really using)
+  const [savedSetup, setSavedSetup] = useState<SetupSnapshot>({
+    character: emptyCharacter(),
+    player: emptyPlayer(),
+  });
+  const [setupFetching, setSetupFetching] = useState(false);
+  // Session whose saved setup last loaded OK. Save stays off otherwise, so a
+  // failed load can't overwrite the stored sheets with the blank form.
+  const [setupLoadedId, setSetupLoadedId] = useState<string | null>(null);
+
+  const setupDirty = useMemo(
+    () => JSON.stringify({ character, player }) !== JSON.stringify(savedSetup),
+    [character, player, savedSetup]
+  );
+
+  // Branches of the current session
+  const [branches, setBranches] = useState<BranchItem[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState<string | null>(null);
+
+  // Per-message edit / rewind UI, by message id (indexes shift when older
+  // pages are prepended)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [rewindId, setRewindId] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  // Lorebook: session entries live in session state, world entries on the world
+  const [loreScope, setLoreScope] = useState<"session" | "world">("session");
+  const [sessionLore, setSessionLore] = useState<LoreEntry[]>([]);
+  const [savedSessionLore, setSavedSessionLore] = useState<LoreEntry[]>([]);
+  const [worldLoreDraft, setWorldLoreDraft] = useState<LoreEntry[] | null>(null);
+  const [loreSaving, setLoreSaving] = useState(false);
+  const [loreError, setLoreError] = useState<string | null>(null);
+  const [loreSavedMsg, setLoreSavedMsg] = useState<string | null>(null);
+
   // refs
   const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const swipeStartXRef = useRef<number | null>(null);
   const sendInFlightRef = useRef(false);
+  // Set synchronously, unlike `loadingOlder`, so back-to-back scroll events
+  // can't fetch the same older page twice
+  const loadingOlderRef = useRef(false);
+  // Search hit to jump to when the session being switched to loads
+  const pendingJumpRef = useRef<string | null>(null);
 
   // streaming batch refs
   const pendingAssistantTextRef = useRef("");
   const flushTimerRef = useRef<number | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
-  // Auto-scroll when message count changes (not for every delta)
+  // Cancel any in-flight stream when the session changes or the page unmounts,
+  // so deltas never land in another session's messages.
   useEffect(() => {
-    const el = scrollRef.current;
-    if (!el) return;
-    requestAnimationFrame(() => {
-      el.scrollTop = el.scrollHeight;
-    });
-  }, [messages.length]);
+    return () => {
+      streamAbortRef.current?.abort("switch" satisfies StreamAbortReason);
+    };
+  }, [sessionId]);
+
+  const messageKeys = useMemo(
+    () => messages.map((_, i) => String(messageKeyBase + i)),
+    [messages, messageKeyBase]
+  );
+  const virtual = useVirtualList({ scrollRef, keys: messageKeys });
+  const lastMessageKey = messageKeys[messageKeys.length - 1];
+
+  // Auto-scroll when a message is appended (not for every delta, and not when
+  // older history is prepended)
+  useEffect(() => {
+    virtual.scrollToBottom();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastMessageKey]);
+
+  // Scroll to a search hit once it is loaded (after the auto-scroll above),
+  // and keep it highlighted for a moment
+  const jumpIndex = jumpToId ? messages.findIndex((m) => m.id === jumpToId) : -1;
+  const jumpKey = jumpIndex >= 0 ? messageKeys[jumpIndex] : null;
+  useEffect(() => {
+    if (!jumpKey) return;
+    virtual.scrollToKey(jumpKey);
+    const timer = window.setTimeout(() => setJumpToId(null), 4000);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jumpKey]);
+
+  // Outbox saved by an earlier visit (read after mount, not during render)
+  useEffect(() => {
+    setOutbox(readOutbox());
+  }, []);
+
+  useEffect(() => {
+    setRichText(localStorage.getItem("rp_rich_text") !== "0");
+  }, []);
+
+  useEffect(() => {
+    setSetupPanelOpen(localStorage.getItem("rp_setup_panel") !== "0");
+  }, []);
 
-	function buildHeaders(userEmail?: string | null) {
-	  const h: Record<string, string> = {
-		"Content-Type": "application/json",
-		"X-Access-Key": process.env.NEXT_PUBLIC_ACCESS_KEY!,
-	  };
+  useEffect(() => {
+    setAutoTitle(localStorage.getItem("rp_auto_title") !== "0");
+  }, []);
 
-	  if (userEmail) h["X-User-Email"] = userEmail;
+  useEffect(() => {
+    setSelectedWorldId(localStorage.getItem("rp_world_id"));
+  }, []);
 
-	  return h;
-	}
+  // Signed out, or a different user signed in: the previous user's offline
+  // data goes. Only decided online, where a missing sign-in session is real.
+  useEffect(() => {
+    if (sessionHook.status === "loading" || !online) return;
+    if (claimOfflineData(userEmail)) setOutbox([]);
+  }, [sessionHook.status, userEmail, online]);
 
 
   async function fetchSessions() {
@@ -182,12 +605,12 @@ export default function Page() {
     setSessionsError(null);
 
     try {
-      const res = await fetch(`${API_URL}/api/sessions?limit=50`, {
-        headers: buildHeaders(userEmail),
+      const res = await fetch(`${RP_API}/sessions?limit=50&archived=false`, {
+        headers: JSON_HEADERS,
       });
       if (!res.ok) throw new Error(await res.text());
 
-      const data = (await res.json()) as SessionItem[];
+      const data = ((await res.json()) as SessionItem[]).filter((s) => !s.archived);
       setSessions(data);
 
       const last = localStorage.getItem("rp_last_session_id");
@@ -204,16 +627,169 @@ export default function Page() {
     }
   }
 
-  async function createSession() {
+  const selectedWorld = worlds.find((w) => w.id === selectedWorldId) ?? null;
+
+  // The world of the open session (what chat_stream must be told)
+  function currentWorldName() {
+    const current = [...sessions, ...archivedSessions].find((s) => s.id === sessionId);
+    return current?.world_name || selectedWorld?.name || DEFAULT_WORLD_NAME;
+  }
+
+  function currentWorld() {
+    const current = [...sessions, ...archivedSessions].find((s) => s.id === sessionId);
+    const name = currentWorldName();
+    return (
+      worlds.find((w) => current?.world_id && w.id === current.world_id) ??
+      worlds.find((w) => w.name === name) ??
+      null
+    );
+  }
+
+  async function fetchWorlds() {
+    if (!userEmail) return;
+    setWorldsLoading(true);
+    setWorldsError(null);
+
+    try {
+      const res = await fetch(`${RP_API}/worlds`, { headers: JSON_HEADERS });
+      if (!res.ok) throw new Error(await res.text());
+      setWorlds((await res.json()) as WorldItem[]);
+    } catch (err) {
+      setWorldsError(err instanceof Error ? err.message : "Failed to load worlds");
+    } finally {
+      setWorldsLoading(false);
+    }
+  }
+
+  async function saveWorld(draft: WorldDraft, id: string | null) {
+    setWorldsError(null);
+    try {
+      const res = await fetch(id ? `${RP_API}/worlds/${encodeURIComponent(id)}` : `${RP_API}/worlds`, {
+        method: id ? "PATCH" : "POST",
+        headers: JSON_HEADERS,
+        body: JSON.stringify(draft),
+      });
+      if (!res.ok) throw new Error(await res.text());
+
+      const saved = (await res.json()) as WorldItem;
+      setWorlds((prev) =>
+        id ? prev.map((w) => (w.id === id ? saved : w)) : [...prev, saved]
+      );
+      if (!id && saved?.id) selectWorld(saved.id);
+      // Renaming a world renames it on its sessions too
+      if (id) fetchSessions();
+      return true;
+    } catch (err) {
+      setWorldsError(err instanceof Error ? err.message : "Failed to save world");
+      return false;
+    }
+  }
+
+  function selectWorld(id: string) {
+    setSelectedWorldId(id);
+    localStorage.setItem("rp_world_id", id);
+  }
+
+  async function fetchLibrary() {
+    if (!userEmail) return;
+    try {
+      const res = await fetch(LIBRARY_API, { headers: JSON_HEADERS });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.ok) throw new Error(data?.error ?? "Failed to load library");
+      setLibrary(data.items as LibraryItem[]);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : "Failed to load library");
+    }
+  }
+
+  // Runs a library request; null (with libraryError set) on failure.
+  async function libraryRequest(url: string, init: RequestInit, fallbackError: string) {
+    setLibraryBusy(true);
+    setLibraryError(null);
+    try {
+      const res = await fetch(url, { ...init, headers: JSON_HEADERS });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.ok) throw new Error(data?.error ?? fallbackError);
+      return data as { item?: LibraryItem };
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setLibraryBusy(false);
+    }
+  }
+
+  // Saves the sheet being edited; an item of the same name is overwritten.
+  async function saveToLibrary(kind: LibraryKind) {
+    const sheet = kind === "character" ? character : player;
+    const existing = library.find((i) => i.kind === kind && i.name === sheet.name.trim());
+
+    const data = existing
+      ? await libraryRequest(
+          `${LIBRARY_API}/${encodeURIComponent(existing.id)}`,
+          { method: "PATCH", body: JSON.stringify({ sheet }) },
+          "Failed to update library"
+        )
+      : await libraryRequest(
+          LIBRARY_API,
+          { method: "POST", body: JSON.stringify({ kind, sheet }) },
+          "Failed to save to library"
+        );
+
+    const item = data?.item;
+    if (!item) return;
+    setLibrary((prev) => [item, ...prev.filter((i) => i.id !== item.id)]);
+  }
+
+  async function duplicateLibraryItem(id: string) {
+    const data = await libraryRequest(
+      `${LIBRARY_API}/${encodeURIComponent(id)}/duplicate`,
+      { method: "POST" },
+      "Failed to duplicate"
+    );
+    const item = data?.item;
+    if (item) setLibrary((prev) => [item, ...prev]);
+  }
+
+  async function deleteLibraryItem(id: string) {
+    const data = await libraryRequest(
+      `${LIBRARY_API}/${encodeURIComponent(id)}`,
+      { method: "DELETE" },
+      "Failed to delete"
+    );
+    if (!data) return;
+    setLibrary((prev) => prev.filter((i) => i.id !== id));
+    if (newSessionCharacterId === id) setNewSessionCharacterId("");
+    if (newSessionPersonaId === id) setNewSessionPersonaId("");
+  }
+
+  function loadFromLibrary(item: LibraryItem) {
+    if (item.kind === "character") setCharacter(characterFromRaw(item.sheet));
+    else setPlayer(playerFromRaw(item.sheet));
+    setSetupSavedMsg(`Loaded ${item.name}. Save to use it in this session.`);
+    setSetupError(null);
+  }
+
+  // `setup` pre-fills the new session's character and/or player sheet
+  // (e.g. picked from the library), so it starts fully configured.
+  // `imported` seeds title, state and history from a transcript file.
+  async function createSession(
+    setup: Partial<SetupSnapshot> = {},
+    imported: Partial<ImportedTranscript> = {}
+  ) {
     if (!userEmail) return;
     setSessionsLoading(true);
     setSessionsError(null);
 
     try {
-      const res = await fetch(`${API_URL}/api/sessions`, {
+      const res = await fetch(`${RP_API}/sessions`, {
         method: "POST",
-        headers: buildHeaders(),
-        body: JSON.stringify({ world_name: "Dev World", title: "New session" }),
+        headers: JSON_HEADERS,
+        body: JSON.stringify({
+          world_name: selectedWorld?.name ?? DEFAULT_WORLD_NAME,
+          world_id: selectedWorld?.id ?? null,
+          title: imported.title ?? DEFAULT_SESSION_TITLE,
+        }),
       });
       if (!res.ok) throw new Error(await res.text());
 
@@ -221,6 +797,40 @@ export default function Page() {
       const sid = data?.session_id as string | undefined;
       if (!sid) throw new Error("No session_id returned");
 
+      // Before switching, so the Setup tab and history load the seeded data.
+      // If seeding fails the half-made session is deleted again.
+      try {
+        const state = { ...imported.state, ...setup };
+        if (Object.keys(state).length) {
+          const stateRes = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}/state`, {
+            method: "PATCH",
+            headers: JSON_HEADERS,
+            body: JSON.stringify(state),
+          });
+          if (!stateRes.ok) throw new Error(await stateRes.text());
+        }
+
+        if (imported.messages?.length) {
+          const importRes = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}/import`, {
+            method: "POST",
+            headers: JSON_HEADERS,
+            body: JSON.stringify({ messages: imported.messages }),
+          });
+          if (!importRes.ok) throw new Error(await importRes.text());
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to set up session";
+        const cleanup = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}`, {
+          method: "DELETE",
+          headers: JSON_HEADERS,
+        }).catch(() => null);
+        if (cleanup?.ok) throw new Error(message);
+
+        // Still there: show it so it can be deleted by hand
+        await fetchSessions();
+        throw new Error(`${message}\nThe new session couldn’t be removed; delete it from the list.`);
+      }
+
       setSessionId(sid);
       localStorage.setItem("rp_last_session_id", sid);
       setMessages([]);
@@ -234,508 +844,2471 @@ export default function Page() {
     }
   }
 
-  async function loadMessagesForSession(sid: string) {
-    try {
-      const res = await fetch(
-        `${API_URL}/api/messages?session_id=${encodeURIComponent(sid)}&limit=50`,
-        { headers: buildHeaders() }
-      );
-      if (!res.ok) return;
-      const data = await res.json();
-      setMessages(data);
-    } catch {
-      // ignore for now
-    }
+  // One page of the active branch, newest first; `before` = cursor of the
+  // page after it.
+  async function fetchMessagePage(sid: string, before: string | null) {
+    const res = await fetch(
+      `${RP_API}/messages?session_id=${encodeURIComponent(sid)}&limit=${MESSAGE_PAGE_SIZE}` +
+        (before ? `&before=${encodeURIComponent(before)}` : ""),
+      { headers: JSON_HEADERS }
+    );
+    if (!res.ok) throw new Error(await res.text());
+    return parseMessagePage(await res.json());
   }
 
-  async function loadSetupForSession(sid: string) {
-    setSetupError(null);
-    setSetupSavedMsg(null);
-
-    try {
-      // We reuse /api/sessions list to get order/title, but we need state_json.
-      // Your backend patch endpoint returns state_json on save; for initial load,
-      // simplest is: read session via messages endpoint? Not available.
-      // So we keep it lightweight: default empty until you save once.
-      //
-      // If you want "load existing setup", add GET /api/sessions/{id} that returns state_json.
-      // For now: reset local form when switching sessions.
-      setCharacter(emptyCharacter());
-      setPlayer(emptyPlayer());
-    } catch {
-      // ignore
+  // Every message of the active branch, oldest first (export needs them all,
+  // not just the pages loaded in the chat). Stops when a cursor repeats or a
+  // page brings no new messages, so a backend that ignores `before` can't
+  // keep it paging forever.
+  async function fetchAllMessages(sid: string) {
+    const all: ChatMessage[] = [];
+    const seenIds = new Set<string>();
+    const seenCursors = new Set<string>();
+    let cursor: string | null = null;
+
+    for (let pages = 0; ; pages++) {
+      if (pages === EXPORT_MAX_PAGES) throw new Error("Too many messages to export");
+
+      const page = await fetchMessagePage(sid, cursor);
+      const fresh = page.messages.filter((m) => !m.id || !seenIds.has(m.id));
+      if (!fresh.length) break;
+      for (const m of fresh) if (m.id) seenIds.add(m.id);
+      all.unshift(...fresh);
+
+      if (!page.cursor || seenCursors.has(page.cursor)) break;
+      seenCursors.add(page.cursor);
+      cursor = page.cursor;
     }
-  }
 
-  // On login: load sessions
-  useEffect(() => {
-    if (!userEmail) return;
-    fetchSessions();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [userEmail]);
+    return all;
+  }
 
-  // When sessionId changes: persist + load messages + reset setup form
-  useEffect(() => {
-    if (!userEmail) return;
-    if (!sessionId) return;
-    localStorage.setItem("rp_last_session_id", sessionId);
-    loadMessagesForSession(sessionId);
-    loadSetupForSession(sessionId);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sessionId, userEmail]);
+  async function exportSession(
+    session: SessionItem,
+    format: TranscriptFormat,
+    opts: TranscriptExportOptions = {}
+  ) {
+    setSessionsError(null);
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(session.id)}`, {
+        headers: JSON_HEADERS,
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
 
-  async function saveSetup() {
-    if (!userEmail) {
-      setSetupError("Please sign in first.");
-      return;
+      const file = exportTranscript(
+        {
+          session,
+          state: stateObject(data?.state_json),
+          messages: await fetchAllMessages(session.id),
+        },
+        format,
+        opts
+      );
+      downloadBlob(
+        new Blob([file.text], { type: file.type }),
+        `${fileSlug(session.title, "session")}.${file.ext}`
+      );
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to export session");
     }
-    if (!sessionId) {
-      setSetupError("No session selected.");
+  }
+
+  async function importTranscript(file: File) {
+    setSessionsError(null);
+    let imported: ImportedTranscript;
+    try {
+      imported = parseTranscript(await file.text(), file.name);
+    } catch (err) {
+      setSessionsError(err instanceof Error ? `Import failed: ${err.message}` : "Import failed");
       return;
     }
+    await createSession({}, imported);
+  }
 
-    setSetupLoading(true);
-    setSetupError(null);
-    setSetupSavedMsg(null);
+  async function fetchArchivedSessions() {
+    if (!userEmail) return;
+    setSessionsLoading(true);
+    setSessionsError(null);
 
     try {
-      const res = await fetch(`${API_URL}/api/sessions/${encodeURIComponent(sessionId)}/state`, {
-        method: "PATCH",
-        headers: buildHeaders(),
-        body: JSON.stringify({
-          character,
-          player,
-        }),
+      const res = await fetch(`${RP_API}/sessions?limit=50&archived=true`, {
+        headers: JSON_HEADERS,
       });
-
       if (!res.ok) throw new Error(await res.text());
 
-      setSetupSavedMsg("Saved ✓ (applies immediately to RP)");
-    } catch (err: any) {
-      setSetupError(err?.message ?? "Failed to save setup");
+      const data = (await res.json()) as SessionItem[];
+      setArchivedSessions(data.filter((s) => s.archived));
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to load archived sessions");
     } finally {
-      setSetupLoading(false);
+      setSessionsLoading(false);
     }
   }
 
-  async function sendMessage(text: string) {
-    if (!text.trim() || loading) return;
-    if (sendInFlightRef.current) return;
+  function refreshSessionLists() {
+    fetchSessions();
+    if (sessionFilter === "archived") fetchArchivedSessions();
+  }
 
-    if (!userEmail) {
-      setMessages((prev) => [
-        ...prev,
-        { role: "assistant", content: "[Auth] Please sign in first." },
-      ]);
-      return;
-    }
+  async function updateSession(sid: string, patch: { title?: string; archived?: boolean }) {
+    const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}`, {
+      method: "PATCH",
+      headers: JSON_HEADERS,
+      body: JSON.stringify(patch),
+    });
+    if (!res.ok) throw new Error(await res.text());
+  }
 
-    if (!sessionId) {
-      setMenuView("sessions");
-      setMenuOpen(true);
-      return;
-    }
+  // The current session was archived or deleted: move to the most recent
+  // remaining active session (or none) and keep rp_last_session_id in sync.
+  function leaveSession(sid: string) {
+    if (sid !== sessionId) return;
 
-    sendInFlightRef.current = true;
-    setLoading(true);
+    const next = sessions.find((s) => s.id !== sid && !s.archived)?.id ?? null;
+    if (next) {
+      localStorage.setItem("rp_last_session_id", next);
+    } else {
+      localStorage.removeItem("rp_last_session_id");
+      setMessages([]);
+      setOlderCursor(null);
+      setBranches([]);
+      setActiveBranchId(null);
+    }
+    setSessionId(next);
+  }
 
-    setMessages((prev) => [
-      ...prev,
-      { role: "user", content: text },
-      { role: "assistant", content: "" },
-    ]);
+  async function renameSession(sid: string, title: string) {
+    setSessionsError(null);
+    try {
+      await updateSession(sid, { title });
+      const rename = (list: SessionItem[]) =>
+        list.map((s) => (s.id === sid ? { ...s, title } : s));
+      setSessions(rename);
+      setArchivedSessions(rename);
+      return true;
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to rename session");
+      return false;
+    }
+  }
 
-    pendingAssistantTextRef.current = "";
+  async function setSessionArchived(sid: string, archived: boolean) {
+    setSessionsError(null);
+    try {
+      await updateSession(sid, { archived });
+      if (archived) leaveSession(sid);
+      refreshSessionLists();
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to update session");
+    }
+  }
 
+  async function deleteSession(sid: string) {
+    setSessionsError(null);
     try {
-      const res = await fetch(`${API_URL}/api/chat_stream`, {
-        method: "POST",
-        headers: buildHeaders(),
-        body: JSON.stringify({
-          text,
-          session_id: sessionId,
-          world_name: "Dev World",
-        }),
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}`, {
+        method: "DELETE",
+        headers: JSON_HEADERS,
       });
-
       if (!res.ok) throw new Error(await res.text());
-      if (!res.body) throw new Error("No response body");
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      const flushAssistant = () => {
-        setMessages((prev) => {
-          const next = [...prev];
-          next[next.length - 1] = {
-            role: "assistant",
-            content: pendingAssistantTextRef.current,
-          };
-          return next;
-        });
-      };
 
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const parsed = parseSSE(buffer);
-        buffer = parsed.rest;
-
-        for (const evt of parsed.events) {
-          if (evt.event === "delta") {
-            const delta = evt.data?.text ?? "";
-            if (!delta) continue;
-
-            pendingAssistantTextRef.current += delta;
-
-            // throttle UI updates
-            if (flushTimerRef.current == null) {
-              flushTimerRef.current = window.setTimeout(() => {
-                flushTimerRef.current = null;
-                flushAssistant();
-              }, 100);
-            }
-          } else if (evt.event === "error") {
-            throw new Error(evt.data?.error ?? "Stream error");
-          }
-        }
+      if (localStorage.getItem("rp_last_session_id") === sid) {
+        localStorage.removeItem("rp_last_session_id");
       }
+      leaveSession(sid);
+      setSessions((list) => list.filter((s) => s.id !== sid));
+      setArchivedSessions((list) => list.filter((s) => s.id !== sid));
+      refreshSessionLists();
+    } catch (err) {
+      setSessionsError(err instanceof Error ? err.message : "Failed to delete session");
+    }
+  }
 
-      if (flushTimerRef.current != null) {
-        clearTimeout(flushTimerRef.current);
-        flushTimerRef.current = null;
+  // After the first exchange, replace the placeholder title with one taken
+  // from the opening line (if the user hasn't named the session already).
+  async function maybeAutoTitle(sid: string, firstText: string) {
+    if (!autoTitle) return;
+    const current = sessions.find((s) => s.id === sid)?.title ?? DEFAULT_SESSION_TITLE;
+    if (current && current !== DEFAULT_SESSION_TITLE) return;
+
+    const title = titleFromText(firstText);
+    if (!title) return;
+
+    try {
+      await updateSession(sid, { title });
+      setSessions((list) => list.map((s) => (s.id === sid ? { ...s, title } : s)));
+    } catch {
+      // Not important enough to surface; the user can rename by hand.
+    }
+  }
+
+  // `untilId`: keep loading older pages until that message is in (jumping
+  // to a search hit), then scroll to it.
+  async function loadMessagesForSession(sid: string, opts: { untilId?: string } = {}) {
+    const { untilId } = opts;
+    try {
+      let { messages: loaded, cursor } = await fetchMessagePage(sid, null);
+      for (
+        let pages = 1;
+        untilId && cursor && pages < JUMP_MAX_PAGES && !loaded.some((m) => m.id === untilId);
+        pages++
+      ) {
+        const page = await fetchMessagePage(sid, cursor);
+        loaded = [...page.messages, ...loaded];
+        cursor = page.cursor;
       }
-      flushAssistant();
+      if (sessionIdRef.current !== sid) return;
+
+      setMessageKeyBase(0);
+      setMessages(loaded);
+      setOlderCursor(cursor);
+      setHistorySessionId(sid);
+      if (untilId) {
+        if (loaded.some((m) => m.id === untilId)) setJumpToId(untilId);
+        else setHistoryError("Couldn't find that message here. It may be on another branch.");
+      }
+    } catch {
+      // ignore for now
+    }
+  }
 
-      // refresh sessions ordering (updated_at changed)
-      fetchSessions();
+  async function loadOlderMessages() {
+    const sid = sessionId;
+    if (!sid || !olderCursor || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(sid, olderCursor);
+      if (sessionIdRef.current !== sid) return;
+
+      setMessageKeyBase((b) => b - page.messages.length);
+      setMessages((prev) => [...page.messages, ...prev]);
+      setOlderCursor(page.cursor);
+    } catch (err) {
+      if (sessionIdRef.current !== sid) return;
+      setHistoryError(err instanceof Error ? err.message : "Failed to load older messages");
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }
+
+  async function loadBranchesForSession(sid: string) {
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}/branches`, {
+        headers: JSON_HEADERS,
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
+      if (sessionIdRef.current !== sid) return;
+      setBranches((data?.branches ?? []) as BranchItem[]);
+      setActiveBranchId(data?.active_branch_id ?? null);
+    } catch {
+      if (sessionIdRef.current !== sid) return;
+      setBranches([]);
+      setActiveBranchId(null);
+    }
+  }
+
+  function applySetup(snapshot: SetupSnapshot) {
+    setCharacter(snapshot.character);
+    setPlayer(snapshot.player);
+    setSavedSetup(snapshot);
+  }
+
+  function applySessionLore(entries: LoreEntry[]) {
+    setSessionLore(entries);
+    setSavedSessionLore(entries);
+  }
+
+  function applyMemory(next: SessionMemory) {
+    setMemory(next);
+    setSavedMemory(next);
+  }
+
+  function applyCast(next: SceneCast) {
+    setCast(next);
+    setSavedCast(next);
+  }
+
+  // Session state pushed by a `state` stream event. Only the parts the user
+  // isn't editing right now are replaced.
+  function applyStreamedState(raw: unknown) {
+    const state = stateObject(raw);
+    if ("lorebook" in state && !sessionLoreDirty) applySessionLore(loreFromState(state.lorebook));
+    if (("memory" in state || "summary" in state) && !memoryDirty) applyMemory(memoryFromState(state));
+    if ("cast" in state && !castDirty) applyCast(castFromState(state));
+    if ("generation" in state) {
+      setSessionGeneration(state.generation ? generationFromRaw(state.generation) : null);
+    }
+    if (("character" in state || "player" in state) && !setupDirty) {
+      const setup = setupFromState({ ...savedSetup, ...state });
+      applySetup(setup);
+    }
+  }
+
+  // `withState` also replaces the session lorebook, memory, cast and
+  // generation settings (on session switch only, so opening the Setup tab
+  // doesn't discard unsaved lore or memory edits).
+  async function loadSetupForSession(sid: string, opts: { withState?: boolean } = {}) {
+    setSetupError(null);
+    setSetupSavedMsg(null);
+    setSetupFetching(true);
+    setSetupLoadedId(null);
+
+    // Don't show the previous session's sheet while the new one loads
+    applySetup({ character: emptyCharacter(), player: emptyPlayer() });
+    if (opts.withState) {
+      setSessionGeneration(null);
+      applyMemory(emptyMemory());
+      setMemoryError(null);
+      setMemorySavedMsg(null);
+      applyCast(emptyCast());
+      setCastError(null);
+      setCastSavedMsg(null);
+      setManualSpeakerId(null);
+      applySessionLore([]);
+      setWorldLoreDraft(null);
+      setLoreError(null);
+      setLoreSavedMsg(null);
+    }
+
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}`, {
+        headers: JSON_HEADERS,
+      });
+      if (!res.ok) throw new Error(await res.text());
+
+      const data = await res.json();
+      if (sessionIdRef.current !== sid) return; // switched away meanwhile
+
+      applySetup(setupFromState(data?.state_json));
+      setSetupLoadedId(sid);
+      if (opts.withState) {
+        const state = stateObject(data?.state_json);
+        applySessionLore(loreFromState(state.lorebook));
+        applyMemory(memoryFromState(state));
+        applyCast(castFromState(state));
+        setSessionGeneration(state.generation ? generationFromRaw(state.generation) : null);
+      }
+    } catch (err) {
+      if (sessionIdRef.current !== sid) return;
+      setSetupError(err instanceof Error ? err.message : "Failed to load setup");
+    } finally {
+      if (sessionIdRef.current === sid) setSetupFetching(false);
+    }
+  }
+
+  // On login: load sessions, worlds, the library and generation defaults
+  useEffect(() => {
+    if (!userEmail) return;
+    fetchSessions();
+    fetchWorlds();
+    fetchLibrary();
+    fetchGeneration();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userEmail]);
+
+  // Back online: history that failed to load (nothing cached) gets another go
+  useEffect(() => {
+    if (online && userEmail && sessionId && historySessionId !== sessionId) {
+      loadMessagesForSession(sessionId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [online]);
+
+  // Send this session's queued messages one at a time, oldest first, once
+  // online and its history is in (so replies land after it). A failed one
+  // holds the rest back until it is retried or cancelled.
+  const nextQueued = outbox.find((q) => q.session_id === sessionId) ?? null;
+  useEffect(() => {
+    if (!online || loading || !nextQueued || nextQueued.failed) return;
+    if (historySessionId !== sessionId) return;
+    sendMessage(nextQueued.text, nextQueued.kind, nextQueued.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [online, loading, nextQueued, historySessionId]);
+
+  // Keep the address bar on /s/<id> so the open session can be linked to
+  useEffect(() => {
+    const path = sessionId ? `/s/${encodeURIComponent(sessionId)}` : "/";
+    if (window.location.pathname !== path) window.history.replaceState(null, "", path);
+  }, [sessionId]);
+
+  // When sessionId changes: persist + load messages + reset setup form
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+    if (!userEmail) return;
+    if (!sessionId) return;
+    localStorage.setItem("rp_last_session_id", sessionId);
+    setEditingId(null);
+    setRewindId(null);
+    setHistoryError(null);
+    setBranches([]);
+    setActiveBranchId(null);
+    setMessages([]);
+    setOlderCursor(null);
+    setHistorySessionId(null);
+    setJumpToId(null);
+    const untilId = pendingJumpRef.current ?? undefined;
+    pendingJumpRef.current = null;
+    loadMessagesForSession(sessionId, { untilId });
+    loadBranchesForSession(sessionId);
+    loadSetupForSession(sessionId, { withState: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, userEmail]);
+
+  async function saveSetup() {
+    if (!userEmail) {
+      setSetupError("Please sign in first.");
+      return;
+    }
+    if (!sessionId) {
+      setSetupError("No session selected.");
+      return;
+    }
+    if (setupLoadedId !== sessionId) {
+      setSetupError("The saved setup hasn't loaded yet.");
+      return;
+    }
+
+    setSetupLoading(true);
+    setSetupError(null);
+    setSetupSavedMsg(null);
+
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sessionId)}/state`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({
+          character,
+          player,
+        }),
+      });
+
+      if (!res.ok) throw new Error(await res.text());
+
+      const data = await res.json().catch(() => null);
+      setSavedSetup(
+        data?.state_json ? setupFromState(data.state_json) : { character, player }
+      );
+      setSetupSavedMsg("Saved ✓ (applies immediately to RP)");
     } catch (err: any) {
+      setSetupError(err?.message ?? "Failed to save setup");
+    } finally {
+      setSetupLoading(false);
+    }
+  }
+
+  async function saveLore() {
+    setLoreSaving(true);
+    setLoreError(null);
+    setLoreSavedMsg(null);
+
+    try {
+      if (loreScope === "session") {
+        if (!sessionId) throw new Error("No session selected.");
+        const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sessionId)}/state`, {
+          method: "PATCH",
+          headers: JSON_HEADERS,
+          body: JSON.stringify({ lorebook: sessionLore }),
+        });
+        if (!res.ok) throw new Error(await res.text());
+        setSavedSessionLore(sessionLore);
+      } else {
+        const world = currentWorld();
+        if (!world) throw new Error("This session's world isn't in your worlds list.");
+        const lorebook = worldLoreDraft ?? world.lorebook ?? [];
+        const res = await fetch(`${RP_API}/worlds/${encodeURIComponent(world.id)}`, {
+          method: "PATCH",
+          headers: JSON_HEADERS,
+          body: JSON.stringify({ lorebook }),
+        });
+        if (!res.ok) throw new Error(await res.text());
+        setWorlds((prev) => prev.map((w) => (w.id === world.id ? { ...w, lorebook } : w)));
+        setWorldLoreDraft(null);
+      }
+
+      setLoreSavedMsg("Saved ✓");
+    } catch (err) {
+      setLoreError(err instanceof Error ? err.message : "Failed to save lorebook");
+    } finally {
+      setLoreSaving(false);
+    }
+  }
+
+  async function patchMemory(next: SessionMemory) {
+    if (!sessionId) throw new Error("No session selected.");
+    const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sessionId)}/state`, {
+      method: "PATCH",
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ memory: next }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+  }
+
+  async function saveMemory() {
+    setMemorySaving(true);
+    setMemoryError(null);
+    setMemorySavedMsg(null);
+
+    // Blank entries (e.g. text cleared while editing) are dropped on save
+    const next: SessionMemory = {
+      summary: memory.summary,
+      facts: memory.facts.filter((e) => e.text.trim()),
+      relationships: memory.relationships.filter((e) => e.text.trim()),
+    };
+
+    try {
+      await patchMemory(next);
+      applyMemory(next);
+      setMemorySavedMsg("Saved ✓");
+    } catch (err) {
+      setMemoryError(err instanceof Error ? err.message : "Failed to save memory");
+    } finally {
+      setMemorySaving(false);
+    }
+  }
+
+  // "Remember this": saves the message's gist as a key fact right away.
+  // Unsaved edits in the Memory tab stay unsaved but keep the new fact.
+  async function rememberMessage(m: ChatMessage) {
+    const text = gistOf(m.content);
+    if (!text) return;
+
+    const entry = newMemoryEntry(text, m.id);
+    const next = { ...savedMemory, facts: [...savedMemory.facts, entry] };
+
+    setHistoryError(null);
+    try {
+      await patchMemory(next);
+      setSavedMemory(next);
+      setMemory((prev) => ({ ...prev, facts: [...prev.facts, entry] }));
+      setRememberedId(m.id ?? null);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : "Failed to remember message");
+    }
+  }
+
+  async function runSearch(query: string, filters: SearchFilters, cursor: string | null = null) {
+    setSearchBusy(true);
+    setSearchError(null);
+    if (!cursor) {
+      setSearch({ query, filters });
+      setSearchResults([]);
+      setSearchCursor(null);
+    }
+
+    try {
+      const res = await fetch(`${RP_API}/search?${searchQueryString(query, filters, cursor)}`, {
+        headers: JSON_HEADERS,
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
+
+      // A bare array (one page) or { results, next_cursor }
+      const rows: unknown[] = Array.isArray(data) ? data : (data?.results ?? []);
+      const terms = searchTerms(query);
+      const page = rows
+        .map((r) => searchResultFromRaw(r, terms))
+        .filter((r): r is SearchResult => !!r);
+
+      setSearchResults((prev) => (cursor ? [...prev, ...page] : page));
+      setSearchCursor(Array.isArray(data) ? null : (data?.next_cursor ?? null));
+    } catch (err) {
+      setSearchError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setSearchBusy(false);
+    }
+  }
+
+  // Opens a result's session; message hits also load history back to the
+  // message and scroll to it.
+  function openSearchResult(r: SearchResult) {
+    setMenuOpen(false);
+    if (r.session_id !== sessionId) {
+      pendingJumpRef.current = r.message_id;
+      setSessionId(r.session_id);
+      return;
+    }
+    if (!r.message_id) return;
+
+    setHistoryError(null);
+    if (messages.some((m) => m.id === r.message_id)) setJumpToId(r.message_id);
+    else loadMessagesForSession(r.session_id, { untilId: r.message_id });
+  }
+
+  function queueMessage(entry: QueuedMessage) {
+    setOutbox((prev) => {
+      const next = [...prev, entry];
+      writeOutbox(next);
+      return next;
+    });
+    virtual.scrollToBottom();
+  }
+
+  function dequeueMessage(id: string) {
+    setOutbox((prev) => {
+      const next = prev.filter((q) => q.id !== id);
+      writeOutbox(next);
+      return next;
+    });
+  }
+
+  function setQueuedFailed(id: string, failed: boolean) {
+    setOutbox((prev) => {
+      const next = prev.map((q) => (q.id === id ? { ...q, failed } : q));
+      writeOutbox(next);
+      return next;
+    });
+  }
+
+  async function patchCast(next: SceneCast) {
+    if (!sessionId) throw new Error("No session selected.");
+    const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sessionId)}/state`, {
+      method: "PATCH",
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ cast: next }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+  }
+
+  async function saveCast() {
+    setCastSaving(true);
+    setCastError(null);
+    setCastSavedMsg(null);
+
+    // Characters added but never filled in are dropped on save
+    const next: SceneCast = {
+      ...cast,
+      members: cast.members.filter((m) => m.sheet.name.trim() || m.sheet.description.trim()),
+    };
+
+    try {
+      await patchCast(next);
+      applyCast(next);
+      setCastSavedMsg("Saved ✓");
+    } catch (err) {
+      setCastError(err instanceof Error ? err.message : "Failed to save cast");
+    } finally {
+      setCastSaving(false);
+    }
+  }
+
+  // A character joins or leaves the scene. Saved right away for characters
+  // already saved to the cast; other unsaved cast edits stay unsaved.
+  async function setCastPresence(id: string, present: boolean) {
+    const withPresence = (c: SceneCast): SceneCast =>
+      id === LEAD_ID
+        ? { ...c, lead_present: present }
+        : { ...c, members: c.members.map((m) => (m.id === id ? { ...m, present } : m)) };
+
+    if (id !== LEAD_ID && !savedCast.members.some((m) => m.id === id)) {
+      setCast(withPresence);
+      return;
+    }
+
+    const next = withPresence(savedCast);
+    setCastError(null);
+    setCastSavedMsg(null);
+    setCastSaving(true);
+    try {
+      await patchCast(next);
+      setSavedCast(next);
+      setCast(withPresence);
+    } catch (err) {
+      setCastError(err instanceof Error ? err.message : "Failed to update the scene");
+    } finally {
+      setCastSaving(false);
+    }
+  }
+
+  // chat_stream fields naming the character who replies (group scenes only)
+  function speakerRequest(speaker: Pick<ChatMessage, "speaker_id" | "speaker_name">) {
+    if (!groupScene) return {};
+    const id = speaker.speaker_id ?? LEAD_ID;
+    return {
+      character_id: id,
+      character_name: speaker.speaker_name ?? speakers.find((s) => s.id === id)?.name ?? "",
+    };
+  }
+
+  async function fetchGeneration() {
+    if (!userEmail) return;
+    try {
+      const res = await fetch(GENERATION_API, { headers: JSON_HEADERS });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.ok) throw new Error(data?.error ?? "Failed to load generation settings");
+      setGenerationDefaults(data.defaults ?? null);
+      setGenerationPresets(data.presets ?? []);
+    } catch (err) {
+      setGenerationError(err instanceof Error ? err.message : "Failed to load generation settings");
+    }
+  }
+
+  // What chat_stream gets: the session's settings, else the user's defaults
+  function effectiveGeneration() {
+    return sessionGeneration ?? generationDefaults ?? defaultGeneration();
+  }
+
+  // Runs a generation-settings request; null (with generationError set) on failure.
+  async function generationRequest(url: string, init: RequestInit, fallbackError: string) {
+    setGenerationBusy(true);
+    setGenerationError(null);
+    setGenerationSavedMsg(null);
+    try {
+      const res = await fetch(url, { ...init, headers: JSON_HEADERS });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.ok) throw new Error(data?.error ?? fallbackError);
+      return data as { defaults?: GenerationSettings; preset?: GenerationPreset };
+    } catch (err) {
+      setGenerationError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setGenerationBusy(false);
+    }
+  }
+
+  // null = drop the session's own settings and follow the user's defaults
+  async function saveSessionGeneration(settings: GenerationSettings | null) {
+    if (!sessionId) return;
+    setGenerationBusy(true);
+    setGenerationError(null);
+    setGenerationSavedMsg(null);
+
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sessionId)}/state`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ generation: settings }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+
+      setSessionGeneration(settings);
+      if (!settings) setGenerationDraft(generationDefaults ?? defaultGeneration());
+      setGenerationSavedMsg(settings ? "Saved for this session ✓" : "This session now follows your defaults");
+    } catch (err) {
+      setGenerationError(err instanceof Error ? err.message : "Failed to save settings");
+    } finally {
+      setGenerationBusy(false);
+    }
+  }
+
+  async function saveGenerationDefaults() {
+    const data = await generationRequest(
+      GENERATION_API,
+      { method: "PUT", body: JSON.stringify({ defaults: generationDraft }) },
+      "Failed to save defaults"
+    );
+    if (!data?.defaults) return;
+    setGenerationDefaults(data.defaults);
+    setGenerationSavedMsg("Saved as your default ✓");
+  }
+
+  async function saveGenerationPreset(name: string) {
+    const data = await generationRequest(
+      `${GENERATION_API}/presets`,
+      { method: "POST", body: JSON.stringify({ name, settings: generationDraft }) },
+      "Failed to save preset"
+    );
+    const preset = data?.preset;
+    if (!preset) return;
+    setGenerationPresets((prev) =>
+      [...prev.filter((p) => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setGenerationSavedMsg(`Preset "${preset.name}" saved ✓`);
+  }
+
+  async function deleteGenerationPreset(id: string) {
+    const data = await generationRequest(
+      `${GENERATION_API}/presets/${encodeURIComponent(id)}`,
+      { method: "DELETE" },
+      "Failed to delete preset"
+    );
+    if (data) setGenerationPresets((prev) => prev.filter((p) => p.id !== id));
+  }
+
+  // `queuedId`: sending an outbox entry; it leaves the outbox once sent.
+  async function sendMessage(text: string, kind: MessageKind = "say", queuedId?: string) {
+    if (!text.trim() || loading) return;
+    if (sendInFlightRef.current) return;
+
+    if (!userEmail) {
+      setMessages((prev) => [
+        ...prev,
+        { role: "assistant", content: "[Auth] Please sign in first." },
+      ]);
+      return;
+    }
+
+    if (!sessionId) {
+      setMenuView("sessions");
+      setMenuOpen(true);
+      return;
+    }
+
+    const sid = sessionId;
+
+    // Offline: keep it for later (sent by the outbox effect once back online)
+    if (!navigator.onLine) {
+      if (!queuedId) queueMessage(newQueuedMessage(sid, text, kind));
+      return;
+    }
+
+    const firstExchange = messages.length === 0 && !olderCursor;
+
+    // Group scenes: decide who replies before anything is sent
+    const speaker = groupScene
+      ? nextSpeaker(speakers, savedCast.mode, messages, text, manualSpeakerId)
+      : null;
+    if (groupScene && !speaker) {
+      setHistoryError("Nobody is in the scene. Bring a character back in the Cast tab.");
+      return;
+    }
+    const speakerFields = speaker ? { speaker_id: speaker.id, speaker_name: speaker.name } : {};
+
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: text, ...(kind !== "say" ? { kind } : {}) },
+      // The reply to an OOC note is OOC too (the backend may say otherwise via meta)
+      { role: "assistant", content: "", ...(kind === "ooc" ? { kind } : {}), ...speakerFields },
+    ]);
+
+    // A queued message leaves the outbox only once the backend has taken the
+    // turn (navigator.onLine can be true while the network is still down)
+    let accepted = !queuedId;
+    if (queuedId) setSendingQueuedId(queuedId);
+    await streamReply(
+      {
+        text,
+        kind,
+        ...speakerRequest(speakerFields),
+        session_id: sid,
+        world_name: currentWorldName(),
+        generation: generationForRequest(effectiveGeneration()),
+      },
+      queuedId
+        ? {
+            onAccepted: () => {
+              accepted = true;
+              dequeueMessage(queuedId);
+            },
+            onNotSent: () => {
+              setMessages((prev) => prev.slice(0, -2));
+              setQueuedFailed(queuedId, true);
+            },
+          }
+        : {}
+    );
+    if (queuedId) setSendingQueuedId(null);
+    if (!accepted) return;
+
+    // An OOC note or stage direction makes a poor title
+    if (firstExchange && (kind === "say" || kind === "me")) maybeAutoTitle(sid, text);
+  }
+
+  // Re-sends the last user turn and keeps the result as another alternative
+  // of the last assistant message.
+  async function regenerate() {
+    if (loading || sendInFlightRef.current) return;
+    if (!userEmail || !sessionId) return;
+
+    const last = messages[messages.length - 1];
+    const prevUser = messages[messages.length - 2];
+    if (last?.role !== "assistant" || prevUser?.role !== "user") return;
+
+    setMessages((prev) => {
+      const next = [...prev];
+      const m = next[next.length - 1];
+      const candidates = [...(m.candidates ?? [m.content]), ""];
+      next[next.length - 1] = {
+        ...m,
+        content: "",
+        interrupted: false,
+        candidates,
+        selected: candidates.length - 1,
+      };
+      return next;
+    });
+
+    await streamReply({
+      text: prevUser.content,
+      kind: prevUser.kind ?? "say",
+      ...speakerRequest(last),
+      session_id: sessionId,
+      world_name: currentWorldName(),
+      generation: generationForRequest(effectiveGeneration()),
+      regenerate: true,
+      message_id: last.id,
+    });
+  }
+
+  // Asks the backend to carry on a reply that was cut off at max length; the
+  // new text is appended to the same message.
+  async function continueReply() {
+    if (loading || sendInFlightRef.current) return;
+    if (!userEmail || !sessionId) return;
+
+    const last = messages[messages.length - 1];
+    if (last?.role !== "assistant" || !last.id || !isTruncated(last.stats)) return;
+
+    await streamReply(
+      {
+        text: "",
+        ...speakerRequest(last),
+        session_id: sessionId,
+        world_name: currentWorldName(),
+        generation: generationForRequest(effectiveGeneration()),
+        continue: true,
+        message_id: last.id,
+      },
+      { continueFrom: last.content }
+    );
+  }
+
+  // Streams chat_stream into the last message (which must be the assistant reply).
+  // `continueFrom` is the text already in it when continuing a cut-off reply.
+  // `onAccepted` runs once the backend has answered the request (the turn is
+  // stored); `onNotSent` replaces the error reply when it never got that far.
+  async function streamReply(
+    body: Record<string, unknown>,
+    opts: { continueFrom?: string; onAccepted?: () => void; onNotSent?: () => void } = {}
+  ) {
+    sendInFlightRef.current = true;
+    setLoading(true);
+
+    pendingAssistantTextRef.current = opts.continueFrom ?? "";
+
+    // Client-side timing; token counts and finish reason come from the backend
+    const startedAt = performance.now();
+    let firstDeltaAt: number | null = null;
+    let stats: ReplyStats = {};
+    // Set by "done"; a stream that closes before it was cut off
+    let finished = false;
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    const updateAssistant = (patch: Partial<ChatMessage>) => {
+      if (controller.signal.reason === "switch") return;
       setMessages((prev) => {
         const next = [...prev];
-        next[next.length - 1] = {
-          role: "assistant",
-          content: `[Backend error] ${err?.message ?? "Unknown error"}`,
-        };
+        const { content, ...rest } = patch;
+        next[next.length - 1] = withReplyText(
+          { ...next[next.length - 1], ...rest },
+          content ?? pendingAssistantTextRef.current
+        );
         return next;
       });
+    };
+
+    const flushAssistant = () => updateAssistant({});
+
+    const handleEvent = (event: string, data: StreamPayload) => {
+      if (event === "delta") {
+        const delta = typeof data.text === "string" ? data.text : "";
+        if (!delta) return;
+
+        if (firstDeltaAt == null) {
+          firstDeltaAt = performance.now();
+          stats = mergeStats(stats, { ttft_ms: firstDeltaAt - startedAt });
+        }
+        pendingAssistantTextRef.current += delta;
+
+        // throttle UI updates
+        if (flushTimerRef.current == null) {
+          flushTimerRef.current = window.setTimeout(() => {
+            flushTimerRef.current = null;
+            flushAssistant();
+          }, 100);
+        }
+      } else if (event === "meta") {
+        // The backend tells us the stored ids so swipes/edits can be persisted
+        const id = data.message_id;
+        if (typeof id === "string") updateAssistant({ id });
+        if (typeof data.model === "string") stats = mergeStats(stats, { model: data.model });
+        if (isMessageKind(data.kind)) updateAssistant({ kind: data.kind === "say" ? undefined : data.kind });
+        // In group scenes the backend may hand the turn to someone else
+        if (typeof data.character_id === "string" && data.character_id) {
+          updateAssistant({
+            speaker_id: data.character_id,
+            speaker_name:
+              typeof data.character_name === "string"
+                ? data.character_name
+                : speakers.find((s) => s.id === data.character_id)?.name,
+          });
+        }
+
+        const userId = data.user_message_id;
+        if (typeof userId === "string" && controller.signal.reason !== "switch") {
+          setMessages((prev) => {
+            const next = [...prev];
+            const u = next[next.length - 2];
+            if (u?.role === "user") next[next.length - 2] = { ...u, id: userId };
+            return next;
+          });
+        }
+      } else if (event === "usage") {
+        stats = mergeStats(stats, usageFromPayload(data));
+      } else if (event === "done") {
+        finished = true;
+        stats = mergeStats(stats, {
+          ...usageFromPayload(data),
+          finish_reason: typeof data.finish_reason === "string" ? data.finish_reason : undefined,
+        });
+      } else if (event === "state") {
+        // The backend updated session state during the turn (e.g. lorebook)
+        if (controller.signal.reason !== "switch") applyStreamedState(data.state_json ?? data.state ?? data);
+      } else if (event === "error") {
+        throw new Error(typeof data.error === "string" ? data.error : "Stream error");
+      }
+    };
+
+    const finishStats = (patch: ReplyStats = {}) =>
+      mergeStats(stats, {
+        ...patch,
+        duration_ms: performance.now() - startedAt,
+      });
+
+    // One decoder for the whole reply: lastEventId/retry survive reconnects
+    const sse = new SSEDecoder();
+    let resumes = 0;
+    let accepted = false;
+
+    try {
+      while (true) {
+        const headers: Record<string, string> = { ...JSON_HEADERS };
+        if (sse.lastEventId) headers["Last-Event-ID"] = sse.lastEventId;
+
+        try {
+          let res: Response;
+          try {
+            res = await fetch(`${RP_API}/chat_stream`, {
+              method: "POST",
+              headers,
+              body: JSON.stringify(body),
+              signal: controller.signal,
+            });
+          } catch (err) {
+            throw new StreamDroppedError(err instanceof Error ? err.message : "Network error");
+          }
+
+          if (!res.ok) throw new Error(await res.text());
+          if (!res.body) throw new Error("No response body");
+
+          if (!accepted) {
+            accepted = true;
+            opts.onAccepted?.();
+          }
+          setReconnecting(false);
+
+          const reader = res.body.getReader();
+          const decoder = new TextDecoder();
+          sse.reset();
+
+          while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+              chunk = await reader.read();
+            } catch (err) {
+              throw new StreamDroppedError(err instanceof Error ? err.message : "Connection lost");
+            }
+            if (chunk.done) break;
+
+            for (const evt of sse.push(decoder.decode(chunk.value, { stream: true }))) {
+              handleEvent(evt.event, asPayload(parseEventData(evt.data)));
+            }
+          }
+
+          // Closed without "done": resume if the backend sends event ids (a
+          // backend without them can't, so its stream simply ends here)
+          if (!finished && sse.lastEventId) {
+            throw new StreamDroppedError("The stream ended before the reply finished");
+          }
+          break;
+        } catch (err) {
+          // Only a dropped connection is resumable, and only if the backend
+          // gave us an event id to resume from.
+          if (
+            !(err instanceof StreamDroppedError) ||
+            controller.signal.aborted ||
+            !sse.lastEventId ||
+            resumes >= STREAM_MAX_RESUMES
+          ) {
+            throw err;
+          }
+
+          resumes++;
+          setReconnecting(true);
+          await waitFor((sse.retry ?? 1000) * resumes, controller.signal);
+        }
+      }
+
+      if (flushTimerRef.current != null) {
+        clearTimeout(flushTimerRef.current);
+        flushTimerRef.current = null;
+      }
+      updateAssistant({ stats: finishStats() });
+
+      // refresh sessions ordering (updated_at changed)
+      fetchSessions();
+    } catch (err) {
+      if (!accepted && opts.onNotSent) {
+        // A session switch already cleared the chat
+        if (controller.signal.reason !== "switch") opts.onNotSent();
+      } else if (controller.signal.aborted) {
+        // Stop keeps whatever arrived; a session switch writes nothing.
+        updateAssistant({ interrupted: true, stats: finishStats({ finish_reason: "interrupted" }) });
+        if (controller.signal.reason === "stop") fetchSessions();
+      } else {
+        updateAssistant({
+          content: `[Backend error] ${err instanceof Error ? err.message : "Unknown error"}`,
+        });
+      }
     } finally {
       if (flushTimerRef.current != null) {
         clearTimeout(flushTimerRef.current);
         flushTimerRef.current = null;
       }
+      setReconnecting(false);
+      if (streamAbortRef.current === controller) streamAbortRef.current = null;
       sendInFlightRef.current = false;
       setLoading(false);
     }
   }
 
+  // Switches which alternative is shown and tells the backend it is canonical,
+  // so the story continues from the chosen reply.
+  async function selectCandidate(index: number) {
+    if (loading) return;
+    const last = messages[messages.length - 1];
+    if (!last?.candidates || index < 0 || index >= last.candidates.length) return;
+
+    setMessages((prev) => {
+      const next = [...prev];
+      next[next.length - 1] = normalizeMessage({ ...last, selected: index });
+      return next;
+    });
+
+    if (!last.id || !sessionId) return;
+    const id = last.id;
+    setHistoryError(null);
+    try {
+      const res = await fetch(`${RP_API}/messages/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ session_id: sessionId, selected: index }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+    } catch (err) {
+      // Back to the reply the story actually continues from (unless the user
+      // has swiped on since)
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === id && m.selected === index
+            ? normalizeMessage({ ...m, selected: last.selected ?? 0 })
+            : m
+        )
+      );
+      setHistoryError(err instanceof Error ? err.message : "Failed to save selected reply");
+    }
+  }
+
+  async function saveEdit(id: string) {
+    const m = messages.find((x) => x.id === id);
+    const content = editText.trim();
+    if (!m?.id || !sessionId || !content) return;
+
+    setHistoryError(null);
+    try {
+      const res = await fetch(`${RP_API}/messages/${encodeURIComponent(m.id)}`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ session_id: sessionId, content, selected: m.selected }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+
+      setMessages((prev) => prev.map((x) => (x.id === id ? withReplyText(x, content) : x)));
+      setEditingId(null);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : "Failed to edit message");
+    }
+  }
+
+  // "Rewind to here": keep history up to and including message `id`.
+  // mode "branch" forks a new branch (the old one stays reachable);
+  // mode "truncate" discards everything after it in the current branch.
+  async function rewindTo(id: string, mode: "branch" | "truncate") {
+    const m = messages.find((x) => x.id === id);
+    if (!m?.id || !sessionId || loading) return;
+
+    const sid = sessionId;
+    setHistoryError(null);
+    try {
+      const res = await fetch(
+        mode === "branch"
+          ? `${RP_API}/sessions/${encodeURIComponent(sid)}/branches`
+          : `${RP_API}/sessions/${encodeURIComponent(sid)}/rewind`,
+        {
+          method: "POST",
+          headers: JSON_HEADERS,
+          body: JSON.stringify({ message_id: m.id }),
+        }
+      );
+      if (!res.ok) throw new Error(await res.text());
+
+      setRewindId(null);
+      setEditingId(null);
+      await Promise.all([loadMessagesForSession(sid), loadBranchesForSession(sid)]);
+      fetchSessions();
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : "Failed to rewind");
+    }
+  }
+
+  async function switchBranch(branchId: string) {
+    if (!sessionId || loading || branchId === activeBranchId) return;
+
+    const sid = sessionId;
+    setHistoryError(null);
+    try {
+      const res = await fetch(`${RP_API}/sessions/${encodeURIComponent(sid)}`, {
+        method: "PATCH",
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ active_branch_id: branchId }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+
+      setActiveBranchId(branchId);
+      setEditingId(null);
+      setRewindId(null);
+      await loadMessagesForSession(sid);
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : "Failed to switch branch");
+    }
+  }
+
+  const stopGeneration = useCallback(() => {
+    streamAbortRef.current?.abort("stop" satisfies StreamAbortReason);
+  }, []);
+
+  const world = currentWorld();
+  const savedWorldLore = world?.lorebook;
+  const worldLore = useMemo(
+    () => worldLoreDraft ?? loreFromState(savedWorldLore),
+    [worldLoreDraft, savedWorldLore]
+  );
+  const sessionLoreDirty = JSON.stringify(sessionLore) !== JSON.stringify(savedSessionLore);
+  const memoryDirty = JSON.stringify(memory) !== JSON.stringify(savedMemory);
+  const castDirty = JSON.stringify(cast) !== JSON.stringify(savedCast);
+
+  const groupScene = isGroupScene(savedCast);
+  const speakers = useMemo(
+    () => speakersOf(savedCast, savedSetup.character),
+    [savedCast, savedSetup.character]
+  );
+  const speakerById = useMemo(() => new Map(speakers.map((s) => [s.id, s])), [speakers]);
+  // Who replies if the next message names nobody (shown above the input)
+  const nextSpeakerId = groupScene
+    ? (nextSpeaker(speakers, savedCast.mode, messages, "", manualSpeakerId)?.id ?? null)
+    : null;
+  const presentSpeakers = useMemo(() => speakers.filter((s) => s.present), [speakers]);
+  const scene = useMemo<SceneControls | null>(
+    () =>
+      groupScene
+        ? {
+            speakers: presentSpeakers,
+            mode: savedCast.mode,
+            nextId: nextSpeakerId,
+            onPick: setManualSpeakerId,
+          }
+        : null,
+    [groupScene, presentSpeakers, savedCast.mode, nextSpeakerId]
+  );
+  const loreMatches = useMemo(
+    () => matchLore([...sessionLore, ...worldLore], messages),
+    [sessionLore, worldLore, messages]
+  );
+
+  const worldNames = Array.from(
+    new Set([...worlds.map((w) => w.name), ...sessions.map((s) => s.world_name || DEFAULT_WORLD_NAME)])
+  );
+
+  const visibleSessions = (sessionFilter === "active" ? sessions : archivedSessions).filter(
+    (s) => !worldFilter || (s.world_name || DEFAULT_WORLD_NAME) === worldFilter
+  );
+
+  const queuedHere = outbox.filter((q) => q.session_id === sessionId);
+
   const onSend = useMemo(
-    () => (t: string) => sendMessage(t),
+    () => (t: string, kind: MessageKind) => sendMessage(t, kind),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [sessionId, loading, userEmail]
+    [
+      sessionId,
+      loading,
+      userEmail,
+      messages,
+      sessionGeneration,
+      generationDefaults,
+      savedCast,
+      savedSetup,
+      manualSpeakerId,
+      historySessionId,
+    ]
   );
 
-  return (
-    <main className="flex flex-col h-[100dvh] max-w-md mx-auto border-x">
-      <header className="p-3 border-b flex items-center justify-between gap-2 shrink-0">
-        <div className="font-semibold">
-          RP Chat {sessionId ? `· ${sessionId.slice(0, 8)}` : ""}
-        </div>
-
+  // Sessions list and the character/player sheets: Menu tabs on phones, the
+  // left sidebar and the right panel on wide screens
+  const sessionsView = (
+    <>
+      <div className="mt-3 flex gap-2">
         <button
           onClick={() => {
-            setMenuView("sessions");
-            setMenuOpen(true);
-            fetchSessions();
+            const chosenCharacter = library.find((i) => i.id === newSessionCharacterId);
+            const chosenPersona = library.find((i) => i.id === newSessionPersonaId);
+            createSession({
+              ...(chosenCharacter ? { character: characterFromRaw(chosenCharacter.sheet) } : {}),
+              ...(chosenPersona ? { player: playerFromRaw(chosenPersona.sheet) } : {}),
+            });
           }}
-          className="px-3 py-1.5 rounded border text-sm bg-white"
+          disabled={sessionsLoading || !userEmail}
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
         >
-          Menu
+          New session
         </button>
-      </header>
-
-      <div
-        ref={scrollRef}
-        className="flex-1 min-h-0 overflow-y-auto px-3 pt-3 pb-28 space-y-2"
-      >
-        {!userEmail ? (
-          <div className="text-sm text-gray-600">
-            You’re not signed in yet. Please sign in to load sessions.
-          </div>
-        ) : null}
+        <button
+          onClick={refreshSessionLists}
+          disabled={sessionsLoading || !userEmail}
+          className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+        >
+          Refresh
+        </button>
+        <label
+          className={`px-3 py-2 rounded border text-sm ${
+            sessionsLoading || !userEmail ? "opacity-50" : "cursor-pointer"
+          }`}
+          title="Our JSON export or a SillyTavern .jsonl chat"
+        >
+          Import chat…
+          <input
+            type="file"
+            accept=".json,.jsonl,application/json"
+            className="hidden"
+            disabled={sessionsLoading || !userEmail}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importTranscript(file);
+            }}
+          />
+        </label>
+      </div>
 
-        {messages.map((m, i) => (
-          <div
-            key={i}
-            className={`whitespace-pre-wrap rounded-lg px-3 py-2 text-base ${
-              m.role === "user"
-                ? "bg-blue-500 text-white ml-auto"
-                : "bg-gray-200 text-gray-900 mr-auto"
+      {library.length ? (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+          Start with
+          {(["character", "persona"] as const).map((kind) => (
+            <select
+              key={kind}
+              value={kind === "character" ? newSessionCharacterId : newSessionPersonaId}
+              onChange={(e) =>
+                kind === "character"
+                  ? setNewSessionCharacterId(e.target.value)
+                  : setNewSessionPersonaId(e.target.value)
+              }
+              className="border rounded px-1 py-1 bg-white max-w-36"
+              aria-label={`Library ${kind} for new sessions`}
+            >
+              <option value="">{kind === "character" ? "Blank character" : "Blank persona"}</option>
+              {library
+                .filter((i) => i.kind === kind)
+                .map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+            </select>
+          ))}
+        </div>
+      ) : null}
+
+      {sessionsError ? (
+        <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">
+          {sessionsError}
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        {(["active", "archived"] as const).map((f) => (
+          <button
+            key={f}
+            onClick={() => {
+              setSessionFilter(f);
+              if (f === "archived") fetchArchivedSessions();
+            }}
+            className={`px-2 py-1 rounded ${
+              sessionFilter === f ? "bg-gray-200" : "text-gray-600"
             }`}
           >
-            {m.content}
-          </div>
+            {f === "active" ? "Active" : "Archived"}
+          </button>
         ))}
+
+        <select
+          value={worldFilter}
+          onChange={(e) => setWorldFilter(e.target.value)}
+          className="border rounded px-1 py-1 text-xs bg-white max-w-28"
+          aria-label="Filter by world"
+        >
+          <option value="">All worlds</option>
+          {worldNames.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+
+        <label className="ml-auto flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={autoTitle}
+            onChange={(e) => {
+              setAutoTitle(e.target.checked);
+              localStorage.setItem("rp_auto_title", e.target.checked ? "1" : "0");
+            }}
+          />
+          Auto-title new sessions
+        </label>
       </div>
 
-      <InputBar loading={loading} onSend={onSend} />
+      <div className="mt-2 max-h-80 lg:max-h-none overflow-y-auto divide-y border rounded">
+        {sessionsLoading ? (
+          <div className="p-3 text-sm text-gray-600">Loading…</div>
+        ) : visibleSessions.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">
+            {worldFilter
+              ? "No sessions in this world."
+              : sessionFilter === "active"
+                ? "No sessions yet. Create one!"
+                : "No archived sessions."}
+          </div>
+        ) : (
+          visibleSessions.map((s) => (
+            <SessionRow
+              key={s.id}
+              session={s}
+              active={s.id === sessionId}
+              disabled={loading}
+              onOpen={() => {
+                setSessionId(s.id);
+                localStorage.setItem("rp_last_session_id", s.id);
+                setMenuOpen(false);
+              }}
+              onRename={(title) => renameSession(s.id, title)}
+              onSetArchived={(archived) => setSessionArchived(s.id, archived)}
+              onDelete={() => deleteSession(s.id)}
+              onExport={(format, opts) => exportSession(s, format, opts)}
+            />
+          ))
+        )}
+      </div>
+    </>
+  );
 
-      {/* Menu Modal */}
-      {menuOpen ? (
-        <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center">
-          <div className="bg-white w-full max-w-md rounded-t-2xl sm:rounded-2xl p-4">
-            <div className="flex items-center justify-between">
-              <div className="font-semibold">Menu</div>
-              <button
-                onClick={() => setMenuOpen(false)}
-                className="px-3 py-1.5 rounded border text-sm"
-              >
-                Close
-              </button>
+  const setupView = (
+    <>
+      <div className="mt-3 text-sm text-gray-700">
+        Saved here applies immediately to the RP (via session state).
+      </div>
+
+      <div className="mt-1 text-xs">
+        {setupFetching ? (
+          <span className="text-gray-500">Loading saved setup…</span>
+        ) : sessionId && setupLoadedId !== sessionId ? (
+          <span className="text-red-600">
+            Saved setup didn’t load, so Save is off.{" "}
+            <button className="underline" onClick={() => loadSetupForSession(sessionId)}>
+              Retry
+            </button>
+          </span>
+        ) : setupDirty ? (
+          <span className="text-amber-700">● Unsaved changes</span>
+        ) : (
+          <span className="text-gray-500">Matches saved setup</span>
+        )}
+      </div>
+
+      {libraryError ? (
+        <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">{libraryError}</div>
+      ) : null}
+
+      <CharacterCardActions
+        key={sessionId ?? ""}
+        character={character}
+        onImport={(imported) => {
+          setCharacter(imported);
+          setSetupError(null);
+          setSetupSavedMsg(`Imported ${imported.name || "character"}. Review, then Save.`);
+        }}
+        onError={(message) => {
+          setSetupSavedMsg(null);
+          setSetupError(message);
+        }}
+      />
+
+      {setupError ? (
+        <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">
+          {setupError}
+        </div>
+      ) : null}
+
+      {setupSavedMsg ? (
+        <div className="mt-2 text-sm text-green-700 whitespace-pre-wrap">
+          {setupSavedMsg}
+        </div>
+      ) : null}
+
+      <div className="mt-3 space-y-4 max-h-80 overflow-y-auto border rounded p-3">
+        <div>
+          <div className="font-semibold text-sm">AI Character Sheet</div>
+
+          <LibraryPicker
+            kind="character"
+            items={library.filter((i) => i.kind === "character")}
+            currentName={character.name}
+            busy={libraryBusy}
+            onLoad={loadFromLibrary}
+            onSave={() => saveToLibrary("character")}
+            onDuplicate={duplicateLibraryItem}
+            onDelete={deleteLibraryItem}
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Name
+          </label>
+          <input
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={character.name}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, name: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Description (1–3 sentences)
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.description}
+            onChange={(e) =>
+              setCharacter((c) => ({
+                ...c,
+                description: e.target.value,
+              }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Personality / traits
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.personality}
+            onChange={(e) =>
+              setCharacter((c) => ({
+                ...c,
+                personality: e.target.value,
+              }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Speaking style
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.style}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, style: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Hard rules / boundaries
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.rules}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, rules: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Scenario
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.scenario}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, scenario: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            First message (greeting)
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.first_message}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, first_message: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Example dialogues
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.example_dialogues}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, example_dialogues: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            System prompt
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={character.system_prompt}
+            onChange={(e) =>
+              setCharacter((c) => ({ ...c, system_prompt: e.target.value }))
+            }
+          />
+
+          {character.card_extra ? (
+            <div className="mt-2 text-xs text-gray-500">
+              Also kept from the imported card:{" "}
+              {Object.keys(character.card_extra).join(", ")}
             </div>
+          ) : null}
+        </div>
 
-            <div className="mt-3 flex gap-2">
-              <button
-                onClick={() => {
+        <div className="border-t pt-3">
+          <div className="font-semibold text-sm">User / Player Sheet</div>
+
+          <LibraryPicker
+            kind="persona"
+            items={library.filter((i) => i.kind === "persona")}
+            currentName={player.name}
+            busy={libraryBusy}
+            onLoad={loadFromLibrary}
+            onSave={() => saveToLibrary("persona")}
+            onDuplicate={duplicateLibraryItem}
+            onDelete={deleteLibraryItem}
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Your name (in story)
+          </label>
+          <input
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={player.name}
+            onChange={(e) =>
+              setPlayer((p) => ({ ...p, name: e.target.value }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Description (who you are in-story)
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={player.description}
+            onChange={(e) =>
+              setPlayer((p) => ({
+                ...p,
+                description: e.target.value,
+              }))
+            }
+          />
+
+          <label className="block text-xs text-gray-600 mt-2">
+            Notes (tone, boundaries, preferences)
+          </label>
+          <textarea
+            className="w-full border rounded px-3 py-2 text-sm min-h-20"
+            value={player.notes}
+            onChange={(e) =>
+              setPlayer((p) => ({ ...p, notes: e.target.value }))
+            }
+          />
+        </div>
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={saveSetup}
+          disabled={
+            setupLoading || setupFetching || !userEmail || !sessionId || setupLoadedId !== sessionId
+          }
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+        >
+          {setupLoading ? "Saving…" : "Save"}
+        </button>
+
+        <button
+          onClick={() => {
+            setCharacter(savedSetup.character);
+            setPlayer(savedSetup.player);
+            setSetupSavedMsg(null);
+            setSetupError(null);
+          }}
+          disabled={!setupDirty || setupFetching}
+          className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+        >
+          Revert to saved
+        </button>
+
+        <button
+          onClick={() => {
+            setCharacter(emptyCharacter());
+            setPlayer(emptyPlayer());
+            setSetupSavedMsg(null);
+            setSetupError(null);
+          }}
+          className="px-3 py-2 rounded border text-sm"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500">
+        Tip: after saving, send a message to see the character sheet influence immediately.
+      </div>
+    </>
+  );
+
+  return (
+    <div className="lg:flex h-[100dvh]">
+      <aside className="hidden lg:block w-80 shrink-0 border-r overflow-y-auto p-3">
+        <div className="font-semibold">Sessions</div>
+        {sessionsView}
+      </aside>
+
+      <main className="flex flex-col h-[100dvh] max-w-md mx-auto border-x lg:max-w-none lg:flex-1 lg:min-w-0 lg:mx-0 lg:border-x-0">
+        <header className="p-3 border-b flex items-center justify-between gap-2 shrink-0">
+          <div className="font-semibold">
+            RP Chat {sessionId ? `· ${sessionId.slice(0, 8)}` : ""}
+          </div>
+
+          {!online ? (
+            <span
+              className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs"
+              title="Showing saved sessions and messages. New messages are sent when you’re back online."
+            >
+              Offline
+            </span>
+          ) : null}
+
+          {branches.length > 1 ? (
+            <select
+              value={activeBranchId ?? ""}
+              onChange={(e) => switchBranch(e.target.value)}
+              disabled={loading}
+              className="ml-auto border rounded px-2 py-1 text-sm bg-white max-w-40"
+              aria-label="Branch"
+            >
+              {branches.map((b, bi) => (
+                <option key={b.id} value={b.id}>
+                  {b.name || (bi === 0 ? "Main" : `Branch ${bi + 1}`)}
+                  {b.message_count != null ? ` (${b.message_count})` : ""}
+                </option>
+              ))}
+            </select>
+          ) : null}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setRichText((v) => {
+                  localStorage.setItem("rp_rich_text", v ? "0" : "1");
+                  return !v;
+                });
+              }}
+              className="px-2 py-1.5 rounded border text-sm bg-white"
+              title={richText ? "Show messages as plain text" : "Style actions, dialogue and OOC"}
+            >
+              {richText ? "Rich" : "Plain"}
+            </button>
+            <button
+              onClick={() => {
+                setSetupPanelOpen((v) => {
+                  localStorage.setItem("rp_setup_panel", v ? "0" : "1");
+                  return !v;
+                });
+              }}
+              className="hidden lg:block px-2 py-1.5 rounded border text-sm bg-white"
+              aria-expanded={setupPanelOpen}
+            >
+              {setupPanelOpen ? "Hide sheets" : "Sheets"}
+            </button>
+            <button
+              onClick={() => {
+                // Sessions and Setup have their own panels on wide screens
+                if (window.matchMedia(WIDE_SCREEN).matches) {
+                  if (menuView === "sessions" || menuView === "setup") setMenuView("search");
+                } else {
                   setMenuView("sessions");
                   fetchSessions();
-                }}
-                className={`px-3 py-2 rounded text-sm border ${
-                  menuView === "sessions" ? "bg-gray-100" : "bg-white"
-                }`}
-              >
-                Sessions
-              </button>
-              <button
-                onClick={() => {
-                  setMenuView("setup");
-                  if (sessionId) loadSetupForSession(sessionId);
-                }}
-                className={`px-3 py-2 rounded text-sm border ${
-                  menuView === "setup" ? "bg-gray-100" : "bg-white"
-                }`}
-              >
-                Setup
-              </button>
-            </div>
+                }
+                setMenuOpen(true);
+              }}
+              className="px-3 py-1.5 rounded border text-sm bg-white"
+            >
+              Menu
+            </button>
+          </div>
+        </header>
 
-            {menuView === "sessions" ? (
-              <>
-                <div className="mt-3 flex gap-2">
-                  <button
-                    onClick={createSession}
-                    disabled={sessionsLoading || !userEmail}
-                    className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
-                  >
-                    New session
-                  </button>
-                  <button
-                    onClick={fetchSessions}
-                    disabled={sessionsLoading || !userEmail}
-                    className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+        <div
+          ref={scrollRef}
+          onScroll={(e) => {
+            if (e.currentTarget.scrollTop < 300) loadOlderMessages();
+          }}
+          className={`relative flex-1 min-h-0 overflow-y-auto px-3 pt-3 ${scene ? "pb-36" : "pb-28"} lg:px-6 lg:pb-3 space-y-2`}
+        >
+          {!userEmail ? (
+            <div className="text-sm text-gray-600">
+              You’re not signed in yet. Please sign in to load sessions.
+            </div>
+          ) : null}
+
+          {historyError ? (
+            <div className="text-sm text-red-600 whitespace-pre-wrap">{historyError}</div>
+          ) : null}
+
+          {sessionId && messages.length > 0 ? (
+            <div className="text-center text-xs text-gray-500 py-2">
+              {olderCursor ? (
+                loadingOlder ? "Loading older messages…" : "Scroll up for older messages"
+              ) : (
+                "— Beginning of story —"
+              )}
+            </div>
+          ) : null}
+
+          <div ref={virtual.listRef}>
+            <div style={{ height: virtual.paddingTop }} />
+            {virtual.indexes.map((i) => {
+              const m = messages[i];
+              const id = m.id;
+              const isLastReply =
+                m.role === "assistant" &&
+                i === messages.length - 1 &&
+                messages[i - 1]?.role === "user";
+              const count = m.candidates?.length ?? 1;
+              const selected = m.selected ?? 0;
+
+              return (
+                <div
+                  key={messageKeys[i]}
+                  data-key={messageKeys[i]}
+                  ref={virtual.measureRef}
+                  className="pb-2"
+                >
+                  <div
+                    onTouchStart={
+                      isLastReply && count > 1
+                        ? (e) => {
+                            swipeStartXRef.current = e.touches[0]?.clientX ?? null;
+                          }
+                        : undefined
+                    }
+                    onTouchEnd={
+                      isLastReply && count > 1
+                        ? (e) => {
+                            const startX = swipeStartXRef.current;
+                            swipeStartXRef.current = null;
+                            const endX = e.changedTouches[0]?.clientX;
+                            if (startX == null || endX == null) return;
+                            const dx = endX - startX;
+                            if (Math.abs(dx) < 50) return;
+                            selectCandidate(dx < 0 ? selected + 1 : selected - 1);
+                          }
+                        : undefined
+                    }
+                    className={`whitespace-pre-wrap rounded-lg px-3 py-2 text-base ${bubbleClass(m)} ${
+                      m.id && m.id === jumpToId ? "ring-2 ring-yellow-400" : ""
+                    }`}
                   >
-                    Refresh
+                    {m.kind && KIND_LABELS[m.kind] ? (
+                      <div className="text-[10px] uppercase tracking-wide not-italic opacity-60">
+                        {KIND_LABELS[m.kind]}
+                      </div>
+                    ) : null}
+                    {m.role === "assistant" && (groupScene || m.speaker_name) ? (
+                      <div className="mb-1 flex items-center gap-1.5 text-xs font-semibold not-italic">
+                        <SpeakerAvatar speaker={bubbleSpeaker(m, speakerById)} />
+                        {bubbleSpeaker(m, speakerById).name}
+                      </div>
+                    ) : null}
+                    {id && editingId === id ? (
+                      <div className="space-y-1">
+                        <textarea
+                          className="w-full border rounded px-2 py-1 text-sm bg-white text-black min-h-20"
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                        />
+                        <div className="flex gap-2 text-xs">
+                          <button
+                            onClick={() => saveEdit(id)}
+                            disabled={!editText.trim()}
+                            className="px-2 py-0.5 rounded border bg-white text-gray-900 disabled:opacity-40"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-2 py-0.5 rounded border bg-white text-gray-900"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    ) : richText ? (
+                      <RichMessage
+                        text={m.content}
+                        streaming={loading && i === messages.length - 1 && m.role === "assistant"}
+                      />
+                    ) : (
+                      m.content
+                    )}
+                    {m.interrupted ? (
+                      <div className="mt-1 text-xs italic opacity-70">
+                        (stopped — reply interrupted)
+                      </div>
+                    ) : null}
+
+                    {m.role === "assistant" && m.stats && editingId !== id ? (
+                      <ReplyInfo
+                        stats={m.stats}
+                        onContinue={isLastReply && m.id && !loading ? continueReply : undefined}
+                      />
+                    ) : null}
+
+                    {isLastReply ? (
+                      <div className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                        {count > 1 ? (
+                          <>
+                            <button
+                              onClick={() => selectCandidate(selected - 1)}
+                              disabled={loading || selected <= 0}
+                              className="px-1.5 rounded border disabled:opacity-40"
+                              aria-label="Previous reply"
+                            >
+                              ‹
+                            </button>
+                            <span>
+                              {selected + 1}/{count}
+                            </span>
+                            <button
+                              onClick={() => selectCandidate(selected + 1)}
+                              disabled={loading || selected >= count - 1}
+                              className="px-1.5 rounded border disabled:opacity-40"
+                              aria-label="Next reply"
+                            >
+                              ›
+                            </button>
+                          </>
+                        ) : null}
+                        <button
+                          onClick={regenerate}
+                          disabled={loading}
+                          className="px-1.5 rounded border disabled:opacity-40"
+                        >
+                          ↻ Regenerate
+                        </button>
+                      </div>
+                    ) : null}
+
+                    {id && editingId !== id && !loading ? (
+                      <div className="mt-1 flex gap-3 text-xs opacity-70">
+                        <button
+                          onClick={() => {
+                            setEditText(m.content);
+                            setEditingId(id);
+                            setRewindId(null);
+                          }}
+                        >
+                          Edit
+                        </button>
+                        {i < messages.length - 1 ? (
+                          <button onClick={() => setRewindId(rewindId === id ? null : id)}>
+                            Rewind to here
+                          </button>
+                        ) : null}
+                        <button
+                          onClick={() => rememberMessage(m)}
+                          disabled={rememberedId === m.id}
+                          title="Add the gist of this message to the session's key facts"
+                        >
+                          {rememberedId === m.id ? "✓ Remembered" : "Remember this"}
+                        </button>
+                      </div>
+                    ) : null}
+
+                    {id && rewindId === id ? (
+                      <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                        <button
+                          onClick={() => rewindTo(id, "branch")}
+                          className="px-2 py-0.5 rounded border bg-white text-gray-900"
+                        >
+                          Branch from here
+                        </button>
+                        <button
+                          onClick={() => rewindTo(id, "truncate")}
+                          className="px-2 py-0.5 rounded border bg-white text-red-700"
+                        >
+                          Discard later messages
+                        </button>
+                        <button
+                          onClick={() => setRewindId(null)}
+                          className="px-2 py-0.5 rounded border bg-white text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              );
+            })}
+            <div style={{ height: virtual.paddingBottom }} />
+          </div>
+
+          {queuedHere.filter((q) => q.id !== sendingQueuedId).map((q) => (
+            <div key={q.id} className="pb-2">
+              <div
+                className={`whitespace-pre-wrap rounded-lg px-3 py-2 text-base opacity-70 ${bubbleClass({
+                  role: "user",
+                  content: q.text,
+                  kind: q.kind,
+                })}`}
+              >
+                {q.text}
+                <div className="mt-1 flex items-center gap-2 text-xs not-italic">
+                  {q.failed ? (
+                    <>
+                      <span className="text-red-700">⚠ Not sent</span>
+                      <button onClick={() => setQueuedFailed(q.id, false)} className="underline">
+                        Retry
+                      </button>
+                    </>
+                  ) : (
+                    <span>🕓 {online ? "Sending…" : "Queued: sends when you’re back online"}</span>
+                  )}
+                  <button onClick={() => dequeueMessage(q.id)} className="ml-auto underline">
+                    Cancel
                   </button>
                 </div>
+              </div>
+            </div>
+          ))}
 
-                {sessionsError ? (
-                  <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">
-                    {sessionsError}
-                  </div>
-                ) : null}
+          {reconnecting ? (
+            <div className="text-center text-xs text-amber-700">
+              Connection lost — resuming reply…
+            </div>
+          ) : null}
+        </div>
 
-                <div className="mt-3 max-h-80 overflow-y-auto divide-y border rounded">
-                  {sessionsLoading ? (
-                    <div className="p-3 text-sm text-gray-600">Loading…</div>
-                  ) : sessions.length === 0 ? (
-                    <div className="p-3 text-sm text-gray-600">
-                      No sessions yet. Create one!
-                    </div>
-                  ) : (
-                    sessions.map((s) => (
+        <InputBar
+          key={sessionId ?? ""}
+          sessionId={sessionId}
+          loading={loading}
+          scene={scene}
+          onSend={onSend}
+          onStop={stopGeneration}
+        />
+
+        {/* Menu Modal */}
+        {menuOpen ? (
+          <div className="fixed inset-0 z-50 bg-black/40 flex items-end sm:items-center justify-center">
+            <div className="bg-white w-full max-w-md rounded-t-2xl sm:rounded-2xl p-4">
+              <div className="flex items-center justify-between">
+                <div className="font-semibold">Menu</div>
+                {auth?.user?.role === "admin" ? (
+                  <Link href="/admin/invites" className="ml-auto mr-2 text-sm text-blue-700 underline">
+                    Invites
+                  </Link>
+                ) : null}
+                <button
+                  onClick={() => setMenuOpen(false)}
+                  className="px-3 py-1.5 rounded border text-sm"
+                >
+                  Close
+                </button>
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                <button
+                  onClick={() => {
+                    setMenuView("sessions");
+                    fetchSessions();
+                  }}
+                  className={`lg:hidden px-3 py-2 rounded text-sm border ${
+                    menuView === "sessions" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Sessions
+                </button>
+                <button
+                  onClick={() => setMenuView("search")}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "search" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Search
+                </button>
+                <button
+                  onClick={() => {
+                    setMenuView("setup");
+                    // Keep unsaved edits when coming back to the tab
+                    if (sessionId && !setupDirty) loadSetupForSession(sessionId);
+                  }}
+                  className={`lg:hidden px-3 py-2 rounded text-sm border ${
+                    menuView === "setup" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Setup
+                </button>
+                <button
+                  onClick={() => setMenuView("lore")}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "lore" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Lore
+                </button>
+                <button
+                  onClick={() => setMenuView("cast")}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "cast" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Cast
+                </button>
+                <button
+                  onClick={() => setMenuView("memory")}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "memory" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Memory
+                </button>
+                <button
+                  onClick={() => {
+                    setMenuView("generation");
+                    setGenerationDraft(effectiveGeneration());
+                    setGenerationError(null);
+                    setGenerationSavedMsg(null);
+                  }}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "generation" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Generation
+                </button>
+                <button
+                  onClick={() => {
+                    setMenuView("worlds");
+                    fetchWorlds();
+                  }}
+                  className={`px-3 py-2 rounded text-sm border ${
+                    menuView === "worlds" ? "bg-gray-100" : "bg-white"
+                  }`}
+                >
+                  Worlds
+                </button>
+              </div>
+
+              {menuView === "search" ? (
+                <>
+                  {searchError ? (
+                    <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">{searchError}</div>
+                  ) : null}
+
+                  <SearchPanel
+                    worldNames={worldNames}
+                    results={searchResults}
+                    terms={search ? searchTerms(search.query) : []}
+                    searched={!!search}
+                    busy={searchBusy}
+                    hasMore={!!searchCursor}
+                    onSearch={(query, filters) => runSearch(query, filters)}
+                    onMore={() => search && runSearch(search.query, search.filters, searchCursor)}
+                    onOpen={openSearchResult}
+                  />
+                </>
+              ) : null}
+
+              {menuView === "sessions" ? sessionsView : null}
+
+              {menuView === "setup" ? setupView : null}
+
+              {menuView === "lore" ? (
+                <>
+                  <div className="mt-3 flex items-center gap-2 text-sm">
+                    {(["session", "world"] as const).map((scope) => (
                       <button
-                        key={s.id}
+                        key={scope}
                         onClick={() => {
-                          setSessionId(s.id);
-                          localStorage.setItem("rp_last_session_id", s.id);
-                          setMenuOpen(false);
+                          setLoreScope(scope);
+                          setLoreSavedMsg(null);
+                          setLoreError(null);
                         }}
-                        className={`w-full text-left p-3 hover:bg-gray-50 ${
-                          s.id === sessionId ? "bg-gray-100" : ""
-                        }`}
+                        className={`px-2 py-1 rounded ${loreScope === scope ? "bg-gray-200" : "text-gray-600"}`}
                       >
-                        <div className="font-medium text-sm">
-                          {s.title || "Untitled"}
-                        </div>
-                        <div className="text-xs text-gray-600">
-                          {s.world_name || "Dev World"}
-                          {s.updated_at
-                            ? ` · ${new Date(s.updated_at).toLocaleString()}`
-                            : ""}
-                        </div>
-                        <div className="text-xs text-gray-500">{s.id}</div>
+                        {scope === "session" ? "This session" : `World: ${world?.name ?? currentWorldName()}`}
                       </button>
-                    ))
-                  )}
-                </div>
-              </>
-            ) : (
-              <>
-                <div className="mt-3 text-sm text-gray-700">
-                  Saved here applies immediately to the RP (via session state).
-                </div>
-
-                {setupError ? (
-                  <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">
-                    {setupError}
+                    ))}
+                    {(loreScope === "session" ? sessionLoreDirty : worldLoreDraft !== null) ? (
+                      <span className="ml-auto text-xs text-amber-700">● Unsaved changes</span>
+                    ) : null}
                   </div>
-                ) : null}
-
-                {setupSavedMsg ? (
-                  <div className="mt-2 text-sm text-green-700 whitespace-pre-wrap">
-                    {setupSavedMsg}
-                  </div>
-                ) : null}
 
-                <div className="mt-3 space-y-4 max-h-80 overflow-y-auto border rounded p-3">
-                  <div>
-                    <div className="font-semibold text-sm">AI Character Sheet</div>
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Name
-                    </label>
-                    <input
-                      className="w-full border rounded px-3 py-2 text-sm"
-                      value={character.name}
-                      onChange={(e) =>
-                        setCharacter((c) => ({ ...c, name: e.target.value }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Description (1–3 sentences)
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={character.description}
-                      onChange={(e) =>
-                        setCharacter((c) => ({
-                          ...c,
-                          description: e.target.value,
-                        }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Personality / traits
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={character.personality}
-                      onChange={(e) =>
-                        setCharacter((c) => ({
-                          ...c,
-                          personality: e.target.value,
-                        }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Speaking style
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={character.style}
-                      onChange={(e) =>
-                        setCharacter((c) => ({ ...c, style: e.target.value }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Hard rules / boundaries
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={character.rules}
-                      onChange={(e) =>
-                        setCharacter((c) => ({ ...c, rules: e.target.value }))
+                  {loreError ? (
+                    <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">{loreError}</div>
+                  ) : null}
+                  {loreSavedMsg ? (
+                    <div className="mt-2 text-sm text-green-700">{loreSavedMsg}</div>
+                  ) : null}
+
+                  <LorebookPanel
+                    key={loreScope}
+                    entries={loreScope === "session" ? sessionLore : worldLore}
+                    matches={loreMatches}
+                    onChange={(entries) => {
+                      setLoreSavedMsg(null);
+                      if (loreScope === "session") setSessionLore(entries);
+                      else setWorldLoreDraft(entries);
+                    }}
+                  />
+
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      onClick={saveLore}
+                      disabled={
+                        loreSaving ||
+                        setupFetching ||
+                        (loreScope === "session" ? !sessionId : !world)
                       }
-                    />
+                      className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+                    >
+                      {loreSaving ? "Saving…" : "Save lorebook"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (loreScope === "session") setSessionLore(savedSessionLore);
+                        else setWorldLoreDraft(null);
+                        setLoreSavedMsg(null);
+                      }}
+                      className="px-3 py-2 rounded border text-sm"
+                    >
+                      Revert to saved
+                    </button>
                   </div>
-
-                  <div className="border-t pt-3">
-                    <div className="font-semibold text-sm">User / Player Sheet</div>
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Your name (in story)
-                    </label>
-                    <input
-                      className="w-full border rounded px-3 py-2 text-sm"
-                      value={player.name}
-                      onChange={(e) =>
-                        setPlayer((p) => ({ ...p, name: e.target.value }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Description (who you are in-story)
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={player.description}
-                      onChange={(e) =>
-                        setPlayer((p) => ({
-                          ...p,
-                          description: e.target.value,
-                        }))
-                      }
-                    />
-
-                    <label className="block text-xs text-gray-600 mt-2">
-                      Notes (tone, boundaries, preferences)
-                    </label>
-                    <textarea
-                      className="w-full border rounded px-3 py-2 text-sm min-h-20"
-                      value={player.notes}
-                      onChange={(e) =>
-                        setPlayer((p) => ({ ...p, notes: e.target.value }))
-                      }
-                    />
+                </>
+              ) : null}
+
+              {menuView === "cast" ? (
+                <>
+                  <div className="mt-3 text-xs">
+                    {setupFetching ? (
+                      <span className="text-gray-500">Loading cast…</span>
+                    ) : castDirty ? (
+                      <span className="text-amber-700">● Unsaved changes</span>
+                    ) : (
+                      <span className="text-gray-500">
+                        Add characters to make this a group scene. Each reply comes from one of them.
+                      </span>
+                    )}
                   </div>
-                </div>
 
-                <div className="mt-3 flex gap-2">
-                  <button
-                    onClick={saveSetup}
-                    disabled={setupLoading || !userEmail || !sessionId}
-                    className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
-                  >
-                    {setupLoading ? "Saving…" : "Save"}
-                  </button>
+                  {castError ? (
+                    <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">{castError}</div>
+                  ) : null}
+                  {castSavedMsg ? (
+                    <div className="mt-2 text-sm text-green-700">{castSavedMsg}</div>
+                  ) : null}
+
+                  <CastPanel
+                    cast={cast}
+                    leadName={savedSetup.character.name}
+                    library={library.filter((i) => i.kind === "character")}
+                    busy={castSaving || setupFetching || !sessionId}
+                    onChange={(next) => {
+                      setCast(next);
+                      setCastSavedMsg(null);
+                    }}
+                    onSetPresent={setCastPresence}
+                  />
+
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      onClick={saveCast}
+                      disabled={castSaving || setupFetching || !sessionId || !castDirty}
+                      className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+                    >
+                      {castSaving ? "Saving…" : "Save cast"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setCast(savedCast);
+                        setCastSavedMsg(null);
+                      }}
+                      disabled={!castDirty}
+                      className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+                    >
+                      Revert to saved
+                    </button>
+                  </div>
+                </>
+              ) : null}
+
+              {menuView === "memory" ? (
+                <>
+                  <div className="mt-3 text-xs">
+                    {setupFetching ? (
+                      <span className="text-gray-500">Loading memory…</span>
+                    ) : memoryDirty ? (
+                      <span className="text-amber-700">● Unsaved changes</span>
+                    ) : (
+                      <span className="text-gray-500">
+                        What the AI keeps between turns. Use “Remember this” on a message to add it.
+                      </span>
+                    )}
+                  </div>
 
-                  <button
-                    onClick={() => {
-                      setCharacter(emptyCharacter());
-                      setPlayer(emptyPlayer());
-                      setSetupSavedMsg(null);
-                      setSetupError(null);
+                  {memoryError ? (
+                    <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">{memoryError}</div>
+                  ) : null}
+                  {memorySavedMsg ? (
+                    <div className="mt-2 text-sm text-green-700">{memorySavedMsg}</div>
+                  ) : null}
+
+                  <MemoryPanel
+                    memory={memory}
+                    onChange={(next) => {
+                      setMemory(next);
+                      setMemorySavedMsg(null);
                     }}
-                    className="px-3 py-2 rounded border text-sm"
-                  >
-                    Clear
-                  </button>
-                </div>
+                  />
+
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      onClick={saveMemory}
+                      disabled={memorySaving || setupFetching || !sessionId || !memoryDirty}
+                      className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+                    >
+                      {memorySaving ? "Saving…" : "Save memory"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMemory(savedMemory);
+                        setMemorySavedMsg(null);
+                      }}
+                      disabled={!memoryDirty}
+                      className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+                    >
+                      Revert to saved
+                    </button>
+                  </div>
+                </>
+              ) : null}
+
+              {menuView === "generation" ? (
+                <>
+                  <div className="mt-3 text-xs text-gray-600">
+                    {sessionGeneration
+                      ? "This session has its own settings."
+                      : generationDefaults
+                        ? "This session follows your default settings."
+                        : "This session uses the backend defaults."}
+                  </div>
 
-                <div className="mt-2 text-xs text-gray-500">
-                  Tip: after saving, send a message to see the character sheet influence immediately.
-                </div>
-              </>
-            )}
+                  {generationError ? (
+                    <div className="mt-2 text-sm text-red-600 whitespace-pre-wrap">{generationError}</div>
+                  ) : null}
+                  {generationSavedMsg ? (
+                    <div className="mt-2 text-sm text-green-700">{generationSavedMsg}</div>
+                  ) : null}
+
+                  <GenerationPanel
+                    settings={generationDraft}
+                    presets={generationPresets}
+                    busy={generationBusy}
+                    onChange={(settings) => {
+                      setGenerationDraft(settings);
+                      setGenerationSavedMsg(null);
+                    }}
+                    onSavePreset={saveGenerationPreset}
+                    onDeletePreset={deleteGenerationPreset}
+                  />
+
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      onClick={() => saveSessionGeneration(generationFromRaw(generationDraft))}
+                      disabled={generationBusy || !sessionId}
+                      className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+                    >
+                      Save for this session
+                    </button>
+                    <button
+                      onClick={saveGenerationDefaults}
+                      disabled={generationBusy || !userEmail}
+                      className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+                    >
+                      Save as my default
+                    </button>
+                    {sessionGeneration ? (
+                      <button
+                        onClick={() => saveSessionGeneration(null)}
+                        disabled={generationBusy}
+                        className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+                      >
+                        Use my default
+                      </button>
+                    ) : null}
+                  </div>
+                </>
+              ) : null}
+
+              {menuView === "worlds" ? (
+                <WorldsPanel
+                  worlds={worlds}
+                  selectedWorldId={selectedWorldId}
+                  loading={worldsLoading}
+                  error={worldsError}
+                  onSelect={selectWorld}
+                  onSave={saveWorld}
+                />
+              ) : null}
+            </div>
           </div>
-        </div>
+        ) : null}
+      </main>
+
+      {setupPanelOpen ? (
+        <aside className="hidden lg:block w-96 shrink-0 border-l overflow-y-auto p-3">
+          <div className="font-semibold">Character &amp; player</div>
+          {setupView}
+        </aside>
       ) : null}
-    </main>
+    </div>
   );
 }
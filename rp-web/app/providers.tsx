@@ -1,7 +1,15 @@
 "use client";
 
+import { useEffect } from "react";
 import { SessionProvider } from "next-auth/react";
 
 export default function Providers({ children }: { children: React.ReactNode }) {
+  // Offline support (public/sw.js). Not in dev, where cached pages get in
+  // the way of hot reload. Without it the app just works online only.
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(() => {});
+  }, []);
+
   return <SessionProvider>{children}</SessionProvider>;
 }
@@ -0,0 +1,3 @@
+// Deep link to a session: the same chat page, opened on that session
+// (it reads the id with useParams).
+export { default } from "@/app/page";
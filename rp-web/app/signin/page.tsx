@@ -3,6 +3,12 @@
 import { useState } from "react";
 import { signIn } from "next-auth/react";
 
+function rateLimitMessage(retryAfter: number | null | undefined) {
+  if (!retryAfter) return "Too many attempts. Please try again later.";
+  const minutes = Math.ceil(retryAfter / 60);
+  return `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
 export default function SignInPage() {
   const [email, setEmail] = useState("");
   const [inviteCode, setInviteCode] = useState("");
@@ -24,6 +30,12 @@ export default function SignInPage() {
 
       const data = await res.json();
 
+      if (res.status === 429) {
+        setError(rateLimitMessage(data.retry_after));
+        setLoading(false);
+        return;
+      }
+
       if (!res.ok || !data.ok) {
         setError(data.error ?? "Invite code failed");
         setLoading(false);
@@ -31,10 +43,25 @@ export default function SignInPage() {
       }
 
       // 2) Trigger magic link
-      await signIn("email", {
+      const result = await signIn("email", {
         email,
         callbackUrl: "/",
+        redirect: false,
       });
+
+      if (result?.status === 429) {
+        setError(rateLimitMessage(null));
+        setLoading(false);
+        return;
+      }
+
+      if (result?.error) {
+        setError("Could not send the sign-in link");
+        setLoading(false);
+        return;
+      }
+
+      if (result?.url) window.location.href = result.url;
     } catch (err) {
       console.error(err);
       setError("Something went wrong");
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { LEAD_ID, SPEAKER_MODES, newCastMember } from "@/lib/cast";
+import { characterFromRaw } from "@/lib/sheets";
+import type { CastMember, CharacterSheet, LibraryItem, SceneCast } from "@/lib/rp-types";
+import SpeakerAvatar from "@/components/SpeakerAvatar";
+
+const SHEET_FIELDS: { key: keyof CharacterSheet; label: string }[] = [
+  { key: "description", label: "Description" },
+  { key: "personality", label: "Personality" },
+  { key: "style", label: "Speaking style" },
+];
+
+// Menu tab: the characters in a group scene besides the Setup one, how the
+// next speaker is picked, and who is currently in the scene. Joining and
+// leaving is saved straight away (`onSetPresent`); the rest on Save.
+export default function CastPanel(props: {
+  cast: SceneCast;
+  leadName: string;
+  library: LibraryItem[];
+  busy: boolean;
+  onChange: (cast: SceneCast) => void;
+  onSetPresent: (id: string, present: boolean) => void;
+}) {
+  const { cast, leadName, library, busy, onChange, onSetPresent } = props;
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const updateMember = (id: string, patch: Partial<CastMember>) =>
+    onChange({ ...cast, members: cast.members.map((m) => (m.id === id ? { ...m, ...patch } : m)) });
+
+  const addMember = (sheet?: CharacterSheet) => {
+    const member = newCastMember(sheet);
+    onChange({ ...cast, members: [...cast.members, member] });
+    if (!sheet) setEditingId(member.id);
+  };
+
+  const presenceButton = (id: string, present: boolean) => (
+    <button
+      onClick={() => onSetPresent(id, !present)}
+      disabled={busy}
+      className="px-2 py-1 rounded border text-xs disabled:opacity-50"
+    >
+      {present ? "Leave scene" : "Join scene"}
+    </button>
+  );
+
+  return (
+    <div className="mt-3 space-y-3 max-h-96 overflow-y-auto border rounded p-3">
+      <div>
+        <div className="text-xs text-gray-600">Who replies next</div>
+        <div className="mt-1 flex gap-2 text-sm">
+          {SPEAKER_MODES.map((m) => (
+            <button
+              key={m.mode}
+              onClick={() => onChange({ ...cast, mode: m.mode })}
+              title={m.hint}
+              className={`px-2 py-1 rounded ${cast.mode === m.mode ? "bg-gray-200" : "text-gray-600"}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="divide-y border rounded">
+        <div className={`p-2 flex items-center gap-2 ${cast.lead_present ? "" : "opacity-60"}`}>
+          <SpeakerAvatar speaker={{ name: leadName, avatar: cast.lead_avatar }} size="md" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium truncate">{leadName || "Character"}</div>
+            <div className="text-xs text-gray-500">From the Setup tab</div>
+          </div>
+          <input
+            className="w-24 border rounded px-2 py-1 text-xs"
+            placeholder="Avatar"
+            value={cast.lead_avatar}
+            onChange={(e) => onChange({ ...cast, lead_avatar: e.target.value })}
+          />
+          {presenceButton(LEAD_ID, cast.lead_present)}
+        </div>
+
+        {cast.members.map((m) => (
+          <div key={m.id} className="p-2">
+            <div className={`flex items-center gap-2 ${m.present ? "" : "opacity-60"}`}>
+              <SpeakerAvatar speaker={{ name: m.sheet.name, avatar: m.avatar }} size="md" />
+              <input
+                className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+                placeholder="Name"
+                value={m.sheet.name}
+                onChange={(e) => updateMember(m.id, { sheet: { ...m.sheet, name: e.target.value } })}
+              />
+              <input
+                className="w-24 border rounded px-2 py-1 text-xs"
+                placeholder="Avatar"
+                value={m.avatar}
+                onChange={(e) => updateMember(m.id, { avatar: e.target.value })}
+              />
+              {presenceButton(m.id, m.present)}
+            </div>
+
+            <div className="mt-1 flex gap-3 text-xs text-gray-600">
+              <button onClick={() => setEditingId(editingId === m.id ? null : m.id)}>
+                {editingId === m.id ? "Done" : "Edit sheet"}
+              </button>
+              <button
+                onClick={() => onChange({ ...cast, members: cast.members.filter((x) => x.id !== m.id) })}
+                className="text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+
+            {editingId === m.id ? (
+              <div className="mt-2 space-y-2">
+                {SHEET_FIELDS.map((f) => (
+                  <label key={f.key} className="block text-xs text-gray-600">
+                    {f.label}
+                    <textarea
+                      className="mt-1 w-full border rounded px-2 py-1 text-sm text-black min-h-16"
+                      value={String(m.sheet[f.key] ?? "")}
+                      onChange={(e) => updateMember(m.id, { sheet: { ...m.sheet, [f.key]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button onClick={() => addMember()} className="px-2 py-1 rounded border">
+          Add character
+        </button>
+        <select
+          value=""
+          onChange={(e) => {
+            const item = library.find((i) => i.id === e.target.value);
+            if (item) addMember(characterFromRaw(item.sheet));
+          }}
+          disabled={library.length === 0}
+          className="border rounded px-2 py-1 bg-white disabled:opacity-50"
+        >
+          <option value="">{library.length ? "Add from library…" : "Library is empty"}</option>
+          {library.map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">Avatar: an emoji or an image URL</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  cardFileName,
+  cardFromCharacter,
+  placeholderPng,
+  pngWithCard,
+  readCardFile,
+} from "@/lib/character-card";
+import { downloadBlob } from "@/lib/download";
+import type { CharacterSheet } from "@/lib/rp-types";
+
+// Setup tab: import a Character Card V2 (.json / .png) into the AI character
+// sheet, or export the sheet as one.
+export default function CharacterCardActions(props: {
+  character: CharacterSheet;
+  onImport: (character: CharacterSheet) => void;
+  onError: (message: string) => void;
+}) {
+  const { character, onImport, onError } = props;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  // Artwork of the last imported PNG, reused by PNG export
+  const [artwork, setArtwork] = useState<Uint8Array | null>(null);
+
+  async function importFile(file: File) {
+    setBusy(true);
+    try {
+      const { character: imported, png } = await readCardFile(file);
+      setArtwork(png);
+      onImport(imported);
+    } catch (err) {
+      onError(err instanceof Error ? `Import failed: ${err.message}` : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function exportPng() {
+    setBusy(true);
+    try {
+      const base = artwork ?? (await placeholderPng(character.name));
+      const png = pngWithCard(base, cardFromCharacter(character));
+      downloadBlob(new Blob([png.slice()], { type: "image/png" }), cardFileName(character.name, "png"));
+    } catch (err) {
+      onError(err instanceof Error ? `Export failed: ${err.message}` : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,.png,application/json,image/png"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) importFile(file);
+        }}
+      />
+      <button
+        onClick={() => fileRef.current?.click()}
+        disabled={busy}
+        className="px-3 py-2 rounded border disabled:opacity-50"
+      >
+        Import card…
+      </button>
+      <button
+        onClick={() =>
+          downloadBlob(
+            new Blob([JSON.stringify(cardFromCharacter(character), null, 2)], { type: "application/json" }),
+            cardFileName(character.name, "json")
+          )
+        }
+        disabled={busy || !character.name.trim()}
+        className="px-3 py-2 rounded border disabled:opacity-50"
+      >
+        Export JSON
+      </button>
+      <button
+        onClick={exportPng}
+        disabled={busy || !character.name.trim()}
+        className="px-3 py-2 rounded border disabled:opacity-50"
+      >
+        Export PNG
+      </button>
+      <span className="text-xs text-gray-500">Character Card V2</span>
+    </div>
+  );
+}
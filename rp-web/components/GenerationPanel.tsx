@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_STOP_SEQUENCES,
+  MAX_TOKENS_RANGE,
+  RESPONSE_LENGTHS,
+  TEMPERATURE_RANGE,
+} from "@/lib/generation";
+import type { GenerationPreset, GenerationSettings } from "@/lib/rp-types";
+
+// Stop sequences are edited one per line, with "\n" standing for a newline
+// (e.g. "\nUser:").
+function stopToText(stop: string[]) {
+  return stop.map((s) => s.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")).join("\n");
+}
+
+function textToStop(text: string) {
+  return text
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => line.replace(/\\(n|\\)/g, (_, c) => (c === "n" ? "\n" : "\\")))
+    .slice(0, MAX_STOP_SEQUENCES);
+}
+
+function numberOrNull(value: string) {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Menu tab body: edit generation settings and manage named presets.
+export default function GenerationPanel(props: {
+  settings: GenerationSettings;
+  presets: GenerationPreset[];
+  busy: boolean;
+  onChange: (settings: GenerationSettings) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}) {
+  const { settings, presets, busy, onChange, onSavePreset, onDeletePreset } = props;
+  // Raw text so a trailing newline can be typed before the next sequence
+  const [stopText, setStopText] = useState(stopToText(settings.stop));
+  const [presetName, setPresetName] = useState("");
+
+  // Settings replaced from outside (preset, reset, session switch)
+  if (JSON.stringify(textToStop(stopText)) !== JSON.stringify(settings.stop)) {
+    setStopText(stopToText(settings.stop));
+  }
+
+  const set = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <>
+      {presets.length ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Presets:</span>
+          {presets.map((p) => (
+            <span key={p.id} className="inline-flex items-center rounded border">
+              <button onClick={() => onChange(p.settings)} className="px-2 py-1">
+                {p.name}
+              </button>
+              <button
+                onClick={() => onDeletePreset(p.id)}
+                disabled={busy}
+                className="px-1.5 py-1 border-l text-gray-500 disabled:opacity-50"
+                aria-label={`Delete preset ${p.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-3 space-y-2 max-h-80 overflow-y-auto border rounded p-3">
+        <label className="block text-xs text-gray-600">Response length</label>
+        <div className="flex gap-2 text-sm">
+          {RESPONSE_LENGTHS.map((l) => (
+            <button
+              key={l.value}
+              onClick={() => set({ response_length: l.value })}
+              className={`px-2 py-1 rounded ${
+                settings.response_length === l.value ? "bg-gray-200" : "text-gray-600"
+              }`}
+            >
+              {l.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <label className="block text-xs text-gray-600">
+            Temperature
+            <input
+              type="number"
+              step={0.05}
+              min={TEMPERATURE_RANGE.min}
+              max={TEMPERATURE_RANGE.max}
+              placeholder="default"
+              className="mt-1 w-24 block border rounded px-2 py-1 text-sm"
+              value={settings.temperature ?? ""}
+              onChange={(e) => set({ temperature: numberOrNull(e.target.value) })}
+            />
+          </label>
+
+          <label className="block text-xs text-gray-600">
+            Max reply length (tokens)
+            <input
+              type="number"
+              step={16}
+              min={MAX_TOKENS_RANGE.min}
+              max={MAX_TOKENS_RANGE.max}
+              placeholder="default"
+              className="mt-1 w-28 block border rounded px-2 py-1 text-sm"
+              value={settings.max_tokens ?? ""}
+              onChange={(e) => set({ max_tokens: numberOrNull(e.target.value) })}
+            />
+          </label>
+        </div>
+
+        <label className="block text-xs text-gray-600">Model / backend preset</label>
+        <input
+          className="w-full border rounded px-3 py-2 text-sm"
+          placeholder="Backend default"
+          value={settings.model}
+          onChange={(e) => set({ model: e.target.value })}
+        />
+
+        <label className="block text-xs text-gray-600">
+          Stop sequences (one per line, up to {MAX_STOP_SEQUENCES}; \n = newline)
+        </label>
+        <textarea
+          className="w-full border rounded px-3 py-2 text-sm font-mono min-h-16"
+          placeholder={"\\nUser:"}
+          value={stopText}
+          onChange={(e) => {
+            setStopText(e.target.value);
+            set({ stop: textToStop(e.target.value) });
+          }}
+        />
+      </div>
+
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!presetName.trim()) return;
+          onSavePreset(presetName.trim());
+          setPresetName("");
+        }}
+      >
+        <input
+          className="flex-1 border rounded px-3 py-2 text-sm"
+          placeholder="Preset name, e.g. long prose"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={busy || !presetName.trim()}
+          className="px-3 py-2 rounded border text-sm disabled:opacity-50"
+        >
+          Save as preset
+        </button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import type { LibraryItem, LibraryKind } from "@/lib/rp-types";
+
+// Setup tab: save the sheet being edited to the user's library, or load /
+// duplicate / delete saved ones. Saving updates the item with the same name.
+export default function LibraryPicker(props: {
+  kind: LibraryKind;
+  items: LibraryItem[];
+  currentName: string;
+  busy: boolean;
+  onLoad: (item: LibraryItem) => void;
+  onSave: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { kind, items, currentName, busy, onLoad, onSave, onDuplicate, onDelete } = props;
+  const [open, setOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const label = kind === "character" ? "character" : "persona";
+  const existing = items.some((i) => i.name === currentName.trim());
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        <button onClick={() => setOpen((v) => !v)} disabled={busy} className="disabled:opacity-50">
+          {open ? "Hide library" : `Load from library (${items.length})`}
+        </button>
+        <button
+          onClick={onSave}
+          disabled={busy || !currentName.trim()}
+          className="disabled:opacity-50"
+          title={currentName.trim() ? undefined : `Name the ${label} first`}
+        >
+          {existing ? "Update in library" : "Save to library"}
+        </button>
+      </div>
+
+      {open ? (
+        <div className="mt-2 max-h-48 overflow-y-auto divide-y border rounded">
+          {items.length === 0 ? (
+            <div className="p-2 text-xs text-gray-600">No saved {label}s yet.</div>
+          ) : (
+            items.map((item) => (
+              <div key={item.id} className="p-2 text-xs">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium text-sm truncate">{item.name}</span>
+                  <button
+                    onClick={() => {
+                      onLoad(item);
+                      setOpen(false);
+                    }}
+                    disabled={busy}
+                    className="ml-auto text-blue-700 disabled:opacity-50"
+                  >
+                    Load
+                  </button>
+                  <button onClick={() => onDuplicate(item.id)} disabled={busy} className="disabled:opacity-50">
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(item.id)}
+                    disabled={busy}
+                    className="text-red-700 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {confirmDelete === item.id ? (
+                  <div className="mt-1 flex items-center gap-2">
+                    <span className="text-red-700">Delete from your library? Sessions keep their copy.</span>
+                    <button
+                      onClick={() => {
+                        setConfirmDelete(null);
+                        onDelete(item.id);
+                      }}
+                      className="px-2 py-0.5 rounded bg-red-600 text-white"
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setConfirmDelete(null)} className="px-2 py-0.5 rounded border">
+                      Cancel
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
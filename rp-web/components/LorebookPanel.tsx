@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { newLoreEntry, parseKeywords, type LoreMatch } from "@/lib/lorebook";
+import type { LoreEntry } from "@/lib/rp-types";
+
+function EntryEditor(props: {
+  entry: LoreEntry;
+  onChange: (entry: LoreEntry) => void;
+  onDelete: () => void;
+  onDone: () => void;
+}) {
+  const { entry, onChange, onDelete, onDone } = props;
+  // Raw text so "a, " can be typed before the next keyword exists
+  const [keywordsText, setKeywordsText] = useState(entry.keywords.join(", "));
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs text-gray-600">Title</label>
+      <input
+        className="w-full border rounded px-3 py-2 text-sm"
+        placeholder="e.g. The Salt Market"
+        value={entry.title}
+        onChange={(e) => onChange({ ...entry, title: e.target.value })}
+      />
+
+      <label className="block text-xs text-gray-600">Trigger keywords (comma-separated)</label>
+      <input
+        className="w-full border rounded px-3 py-2 text-sm"
+        placeholder="salt market, market, Varo"
+        value={keywordsText}
+        onChange={(e) => {
+          setKeywordsText(e.target.value);
+          onChange({ ...entry, keywords: parseKeywords(e.target.value) });
+        }}
+      />
+
+      <label className="block text-xs text-gray-600">Content (what the AI should know)</label>
+      <textarea
+        className="w-full border rounded px-3 py-2 text-sm min-h-20"
+        value={entry.content}
+        onChange={(e) => onChange({ ...entry, content: e.target.value })}
+      />
+
+      <div className="flex items-center gap-3">
+        <label className="text-xs text-gray-600">
+          Priority{" "}
+          <input
+            type="number"
+            className="w-16 border rounded px-2 py-1 text-sm"
+            value={entry.priority}
+            onChange={(e) => onChange({ ...entry, priority: Number(e.target.value) || 0 })}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={entry.enabled}
+            onChange={(e) => onChange({ ...entry, enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        <button onClick={onDelete} className="ml-auto text-xs text-red-700">
+          Delete
+        </button>
+        <button onClick={onDone} className="px-2 py-1 rounded border text-xs">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Menu tab: edit lorebook entries and see which ones the latest turns trigger.
+export default function LorebookPanel(props: {
+  entries: LoreEntry[];
+  matches: LoreMatch[];
+  onChange: (entries: LoreEntry[]) => void;
+}) {
+  const { entries, matches, onChange } = props;
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const matchedKeywords = new Map(matches.map((m) => [m.entry.id, m.keywords]));
+
+  return (
+    <>
+      <div className="mt-3 text-xs text-gray-600">
+        {matches.length ? (
+          <>
+            Matched in the latest turns:{" "}
+            <span className="text-green-800">
+              {matches.map((m) => m.entry.title || "Untitled").join(", ")}
+            </span>
+          </>
+        ) : (
+          "No entries matched the latest turns."
+        )}
+      </div>
+
+      <div className="mt-2 max-h-80 overflow-y-auto divide-y border rounded">
+        {entries.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">
+            No entries yet. Add places, factions or NPCs the AI should remember.
+          </div>
+        ) : (
+          entries.map((entry) => {
+            const hit = matchedKeywords.get(entry.id);
+
+            return (
+              <div key={entry.id} className="p-3">
+                {openId === entry.id ? (
+                  <EntryEditor
+                    entry={entry}
+                    onChange={(next) => onChange(entries.map((e) => (e.id === entry.id ? next : e)))}
+                    onDelete={() => {
+                      onChange(entries.filter((e) => e.id !== entry.id));
+                      setOpenId(null);
+                    }}
+                    onDone={() => setOpenId(null)}
+                  />
+                ) : (
+                  <button onClick={() => setOpenId(entry.id)} className="w-full text-left">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className={`font-medium ${entry.enabled ? "" : "text-gray-400 line-through"}`}>
+                        {entry.title || "Untitled"}
+                      </span>
+                      {entry.priority ? (
+                        <span className="text-xs text-gray-500">p{entry.priority}</span>
+                      ) : null}
+                      {hit ? (
+                        <span className="text-xs px-1.5 rounded bg-green-100 text-green-800">
+                          matched: {hit.join(", ")}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {entry.keywords.length ? entry.keywords.join(", ") : "No keywords (never triggers)"}
+                    </div>
+                  </button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="mt-2">
+        <button
+          onClick={() => {
+            const entry = newLoreEntry();
+            onChange([...entries, entry]);
+            setOpenId(entry.id);
+          }}
+          className="px-3 py-2 rounded border text-sm"
+        >
+          Add entry
+        </button>
+      </div>
+    </>
+  );
+}
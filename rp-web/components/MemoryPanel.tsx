@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { newMemoryEntry, sortedEntries } from "@/lib/memory";
+import type { MemoryEntry, SessionMemory } from "@/lib/rp-types";
+
+function EntryList(props: {
+  title: string;
+  placeholder: string;
+  entries: MemoryEntry[];
+  onChange: (entries: MemoryEntry[]) => void;
+}) {
+  const { title, placeholder, entries, onChange } = props;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const update = (id: string, patch: Partial<MemoryEntry>) =>
+    onChange(entries.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+
+  return (
+    <div>
+      <div className="font-semibold text-sm">{title}</div>
+
+      <div className="mt-1 divide-y border rounded">
+        {entries.length === 0 ? (
+          <div className="p-2 text-xs text-gray-600">Nothing yet.</div>
+        ) : (
+          sortedEntries(entries).map((e) => (
+            <div key={e.id} className="p-2 text-sm">
+              {editingId === e.id ? (
+                <textarea
+                  autoFocus
+                  className="w-full border rounded px-2 py-1 text-sm min-h-16"
+                  value={e.text}
+                  onChange={(ev) => update(e.id, { text: ev.target.value })}
+                  onBlur={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="whitespace-pre-wrap">
+                  {e.pinned ? "📌 " : ""}
+                  {e.text}
+                </div>
+              )}
+              <div className="mt-1 flex gap-3 text-xs text-gray-600">
+                <button onClick={() => setEditingId(editingId === e.id ? null : e.id)}>
+                  {editingId === e.id ? "Done" : "Edit"}
+                </button>
+                <button onClick={() => update(e.id, { pinned: !e.pinned })}>
+                  {e.pinned ? "Unpin" : "Pin"}
+                </button>
+                <button
+                  onClick={() => onChange(entries.filter((x) => x.id !== e.id))}
+                  className="text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form
+        className="mt-1 flex gap-2"
+        onSubmit={(ev) => {
+          ev.preventDefault();
+          if (!draft.trim()) return;
+          onChange([...entries, newMemoryEntry(draft.trim())]);
+          setDraft("");
+        }}
+      >
+        <input
+          className="flex-1 border rounded px-2 py-1 text-sm"
+          placeholder={placeholder}
+          value={draft}
+          onChange={(ev) => setDraft(ev.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-2 py-1 rounded border text-xs disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Menu tab: what the AI remembers about this session (summary, key facts,
+// relationship notes). Pinned entries are always kept in context.
+export default function MemoryPanel(props: {
+  memory: SessionMemory;
+  onChange: (memory: SessionMemory) => void;
+}) {
+  const { memory, onChange } = props;
+
+  return (
+    <div className="mt-3 space-y-4 max-h-96 overflow-y-auto border rounded p-3">
+      <div>
+        <div className="font-semibold text-sm">Summary so far</div>
+        <textarea
+          className="mt-1 w-full border rounded px-3 py-2 text-sm min-h-24"
+          placeholder="The story so far…"
+          value={memory.summary}
+          onChange={(e) => onChange({ ...memory, summary: e.target.value })}
+        />
+      </div>
+
+      <EntryList
+        title="Key facts"
+        placeholder="e.g. Mira owes the harbourmaster 40 silver"
+        entries={memory.facts}
+        onChange={(facts) => onChange({ ...memory, facts })}
+      />
+
+      <EntryList
+        title="Relationships"
+        placeholder="e.g. Kael distrusts Mira since the fire"
+        entries={memory.relationships}
+        onChange={(relationships) => onChange({ ...memory, relationships })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { finishLabel, formatMs, isTruncated } from "@/lib/reply-stats";
+import type { ReplyStats } from "@/lib/rp-types";
+
+// Collapsible "ⓘ" details under an assistant reply: latency, tokens and why
+// it ended, plus "Continue" when it was cut off.
+export default function ReplyInfo(props: {
+  stats: ReplyStats;
+  // Only offered on the latest reply, and hidden while streaming
+  onContinue?: () => void;
+}) {
+  const { stats, onContinue } = props;
+  const [open, setOpen] = useState(false);
+  const truncated = isTruncated(stats);
+
+  const rows: [string, string][] = [];
+  if (stats.ttft_ms != null) rows.push(["First token", formatMs(stats.ttft_ms)]);
+  if (stats.duration_ms != null) rows.push(["Total time", formatMs(stats.duration_ms)]);
+  if (stats.completion_tokens != null) {
+    const perSecond =
+      stats.duration_ms && stats.ttft_ms != null && stats.duration_ms > stats.ttft_ms
+        ? ` · ${(stats.completion_tokens / ((stats.duration_ms - stats.ttft_ms) / 1000)).toFixed(1)} tok/s`
+        : "";
+    rows.push(["Reply tokens", `${stats.completion_tokens}${perSecond}`]);
+  }
+  if (stats.prompt_tokens != null) rows.push(["Prompt tokens", String(stats.prompt_tokens)]);
+  if (stats.total_tokens != null) rows.push(["Total tokens", String(stats.total_tokens)]);
+  if (stats.finish_reason) rows.push(["Finish", finishLabel(stats.finish_reason)]);
+  if (stats.model) rows.push(["Model", stats.model]);
+
+  return (
+    <div className="mt-1 text-xs text-gray-600">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setOpen((v) => !v)}
+          className="opacity-70"
+          aria-expanded={open}
+          aria-label="Reply details"
+        >
+          ⓘ{stats.duration_ms != null ? ` ${formatMs(stats.duration_ms)}` : ""}
+        </button>
+        {truncated ? <span className="text-amber-700">Reply was cut off</span> : null}
+        {truncated && onContinue ? (
+          <button onClick={onContinue} className="px-1.5 rounded border">
+            Continue ▸
+          </button>
+        ) : null}
+      </div>
+
+      {open ? (
+        <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="opacity-70">{label}</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+    </div>
+  );
+}
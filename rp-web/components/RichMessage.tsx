@@ -0,0 +1,85 @@
+"use client";
+
+import { memo, useMemo, type ReactNode } from "react";
+import { parseMessage, type InlineKind, type InlineNode } from "@/lib/rp-markup";
+
+// Colours come from the bubble (white on blue, dark on grey), so styles here
+// only use weight, slant, opacity and translucent backgrounds.
+const INLINE_CLASS: Record<InlineKind, string> = {
+  strong: "font-semibold",
+  action: "italic opacity-75",
+  em: "italic",
+  dialogue: "font-medium",
+  ooc: "text-xs opacity-60",
+  code: "font-mono text-sm rounded px-1 bg-black/10",
+};
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    if (typeof node === "string") return node;
+
+    const children = renderInline(node.children);
+    if (node.kind === "dialogue") {
+      return (
+        <span key={i} className={INLINE_CLASS.dialogue}>
+          “{children}
+          {node.open ? null : "”"}
+        </span>
+      );
+    }
+    if (node.kind === "ooc") {
+      return (
+        <span key={i} className={INLINE_CLASS.ooc}>
+          (OOC:{children}
+          {node.open ? null : ")"}
+        </span>
+      );
+    }
+    return (
+      <span key={i} className={INLINE_CLASS[node.kind]}>
+        {children}
+      </span>
+    );
+  });
+}
+
+function lines(items: InlineNode[][]) {
+  return items.map((line, i) => (
+    <span key={i}>
+      {i > 0 ? <br /> : null}
+      {renderInline(line)}
+    </span>
+  ));
+}
+
+// Message text with RP markup styled; see lib/rp-markup.ts. Output is React
+// elements only, so message content can never inject HTML.
+function RichMessage(props: { text: string; streaming?: boolean }) {
+  const { text, streaming = false } = props;
+  const blocks = useMemo(() => parseMessage(text, streaming), [text, streaming]);
+
+  return (
+    <div className="space-y-2 whitespace-normal">
+      {blocks.map((block, i) => {
+        if (block.kind === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={i} className={`pl-5 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+              {block.items.map((item, j) => (
+                <li key={j}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+
+        return (
+          <p key={i} className={block.kind === "ooc" ? "text-sm opacity-60" : undefined}>
+            {lines(block.lines)}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+export default memo(RichMessage);
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import {
+  emptySearchFilters,
+  highlightParts,
+  type SearchArchived,
+  type SearchFilters,
+  type SearchResult,
+} from "@/lib/search";
+
+const ARCHIVED_OPTIONS: { value: SearchArchived; label: string }[] = [
+  { value: "all", label: "All sessions" },
+  { value: "active", label: "Active only" },
+  { value: "archived", label: "Archived only" },
+];
+
+function Highlighted(props: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightParts(props.text, props.terms).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+// Menu tab: search session titles and messages. Picking a result opens the
+// session at that message.
+export default function SearchPanel(props: {
+  worldNames: string[];
+  results: SearchResult[];
+  // Terms of the search the results belong to (for highlighting)
+  terms: string[];
+  searched: boolean;
+  busy: boolean;
+  hasMore: boolean;
+  onSearch: (query: string, filters: SearchFilters) => void;
+  onMore: () => void;
+  onOpen: (result: SearchResult) => void;
+}) {
+  const { worldNames, results, terms, searched, busy, hasMore, onSearch, onMore, onOpen } = props;
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>(emptySearchFilters());
+  const [showFilters, setShowFilters] = useState(false);
+
+  const set = (patch: Partial<SearchFilters>) => setFilters((f) => ({ ...f, ...patch }));
+  const filtered = JSON.stringify(filters) !== JSON.stringify(emptySearchFilters());
+
+  return (
+    <>
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (query.trim()) onSearch(query, filters);
+        }}
+      >
+        <input
+          type="search"
+          className="flex-1 border rounded px-3 py-2 text-sm"
+          placeholder='e.g. smuggler, or "the old lighthouse"'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={busy || !query.trim()}
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+        >
+          Search
+        </button>
+      </form>
+
+      <div className="mt-2 text-xs text-gray-600">
+        <button onClick={() => setShowFilters((v) => !v)}>
+          {showFilters ? "Hide filters" : filtered ? "Filters (on)" : "Filters"}
+        </button>
+      </div>
+
+      {showFilters ? (
+        <div className="mt-2 flex flex-wrap items-end gap-2 text-xs text-gray-600">
+          <select
+            value={filters.world_name}
+            onChange={(e) => set({ world_name: e.target.value })}
+            className="border rounded px-1 py-1 bg-white max-w-32"
+            aria-label="World"
+          >
+            <option value="">All worlds</option>
+            {worldNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.archived}
+            onChange={(e) => set({ archived: e.target.value as SearchArchived })}
+            className="border rounded px-1 py-1 bg-white"
+            aria-label="Archived status"
+          >
+            {ARCHIVED_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <label>
+            From
+            <input
+              type="date"
+              className="ml-1 border rounded px-1 py-0.5"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => set({ from: e.target.value })}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              className="ml-1 border rounded px-1 py-0.5"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => set({ to: e.target.value })}
+            />
+          </label>
+          {filtered ? (
+            <button onClick={() => setFilters(emptySearchFilters())} className="underline">
+              Clear
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="mt-3 max-h-80 overflow-y-auto divide-y border rounded">
+        {busy && results.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">Searching…</div>
+        ) : results.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">
+            {searched ? "Nothing found." : "Search your session titles and messages."}
+          </div>
+        ) : (
+          results.map((r) => (
+            <button
+              key={`${r.session_id}:${r.message_id ?? "title"}`}
+              onClick={() => onOpen(r)}
+              className="block w-full p-3 text-left hover:bg-gray-50"
+            >
+              <div className="text-sm font-medium">
+                <Highlighted text={r.session_title || "Untitled"} terms={terms} />
+                {r.archived ? <span className="ml-1 text-xs text-gray-500">(archived)</span> : null}
+              </div>
+              <div className="text-xs text-gray-500">
+                {[r.world_name, r.at ? new Date(r.at).toLocaleString() : ""].filter(Boolean).join(" · ")}
+              </div>
+              {r.message_id ? (
+                <div className="mt-1 text-sm text-gray-800">
+                  {r.role === "user" ? <span className="text-gray-500">You: </span> : null}
+                  <Highlighted text={r.snippet} terms={terms} />
+                </div>
+              ) : null}
+            </button>
+          ))
+        )}
+      </div>
+
+      {hasMore ? (
+        <button
+          onClick={onMore}
+          disabled={busy}
+          className="mt-2 px-3 py-2 rounded border text-sm disabled:opacity-50"
+        >
+          {busy ? "Loading…" : "More results"}
+        </button>
+      ) : null}
+    </>
+  );
+}
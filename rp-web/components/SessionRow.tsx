@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_WORLD_NAME, type SessionItem } from "@/lib/rp-types";
+import {
+  TRANSCRIPT_FORMATS,
+  type TranscriptExportOptions,
+  type TranscriptFormat,
+} from "@/lib/transcript";
+
+// One row of the Sessions list: open, inline rename, archive/unarchive,
+// export and delete (with an inline confirmation step).
+export default function SessionRow(props: {
+  session: SessionItem;
+  active: boolean;
+  disabled: boolean;
+  onOpen: () => void;
+  onRename: (title: string) => Promise<boolean>;
+  onSetArchived: (archived: boolean) => void;
+  onDelete: () => void;
+  onExport: (format: TranscriptFormat, opts: TranscriptExportOptions) => Promise<void>;
+}) {
+  const { session: s, active, disabled, onOpen, onRename, onSetArchived, onDelete, onExport } = props;
+
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState(s.title);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [exporting, setExporting] = useState<TranscriptFormat | "menu" | null>(null);
+  const [includeAsides, setIncludeAsides] = useState(true);
+
+  async function submitRename() {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    if (trimmed === s.title || (await onRename(trimmed))) setRenaming(false);
+  }
+
+  return (
+    <div className={`p-3 ${active ? "bg-gray-100" : ""}`}>
+      {renaming ? (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitRename();
+          }}
+        >
+          <input
+            autoFocus
+            className="flex-1 border rounded px-2 py-1 text-sm"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setRenaming(false);
+            }}
+          />
+          <button
+            type="submit"
+            disabled={!title.trim()}
+            className="px-2 py-1 rounded bg-blue-600 text-white text-xs disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setRenaming(false)}
+            className="px-2 py-1 rounded border text-xs"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button onClick={onOpen} className="w-full text-left hover:opacity-80">
+          <div className="font-medium text-sm">{s.title || "Untitled"}</div>
+          <div className="text-xs text-gray-600">
+            {s.world_name || DEFAULT_WORLD_NAME}
+            {s.updated_at ? ` · ${new Date(s.updated_at).toLocaleString()}` : ""}
+            {(s.branch_count ?? 1) > 1 ? ` · ${s.branch_count} branches` : ""}
+          </div>
+          <div className="text-xs text-gray-500">{s.id}</div>
+        </button>
+      )}
+
+      {confirmDelete ? (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-red-700">Delete this session and all its messages permanently?</span>
+          <button
+            onClick={() => {
+              setConfirmDelete(false);
+              onDelete();
+            }}
+            disabled={disabled}
+            className="px-2 py-1 rounded bg-red-600 text-white disabled:opacity-50"
+          >
+            Delete
+          </button>
+          <button onClick={() => setConfirmDelete(false)} className="px-2 py-1 rounded border">
+            Cancel
+          </button>
+        </div>
+      ) : exporting ? (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Export as</span>
+          {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={async () => {
+                setExporting(format);
+                await onExport(format, { includeAsides });
+                setExporting(null);
+              }}
+              disabled={exporting !== "menu"}
+              className="px-2 py-1 rounded border disabled:opacity-50"
+            >
+              {exporting === format ? "Exporting…" : label}
+            </button>
+          ))}
+          <button onClick={() => setExporting(null)} className="px-2 py-1 text-gray-600">
+            Cancel
+          </button>
+          <label className="w-full flex items-center gap-1 text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeAsides}
+              onChange={(e) => setIncludeAsides(e.target.checked)}
+            />
+            Include OOC and director notes
+          </label>
+        </div>
+      ) : !renaming ? (
+        <div className="mt-1 flex gap-3 text-xs text-gray-600">
+          <button
+            onClick={() => {
+              setTitle(s.title);
+              setRenaming(true);
+            }}
+            disabled={disabled}
+            className="disabled:opacity-50"
+          >
+            Rename
+          </button>
+          <button
+            onClick={() => onSetArchived(!s.archived)}
+            disabled={disabled}
+            className="disabled:opacity-50"
+          >
+            {s.archived ? "Unarchive" : "Archive"}
+          </button>
+          <button onClick={() => setExporting("menu")} disabled={disabled} className="disabled:opacity-50">
+            Export
+          </button>
+          <button
+            onClick={() => setConfirmDelete(true)}
+            disabled={disabled}
+            className="text-red-700 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { avatarText, isImageAvatar, type Speaker } from "@/lib/cast";
+
+// Round avatar for a group-scene character: an image URL, or the emoji /
+// initial otherwise.
+export default function SpeakerAvatar(props: {
+  speaker: Pick<Speaker, "name" | "avatar">;
+  size?: "sm" | "md";
+}) {
+  const { speaker, size = "sm" } = props;
+  const box = size === "sm" ? "h-5 w-5 text-[11px]" : "h-8 w-8 text-base";
+
+  if (isImageAvatar(speaker.avatar)) {
+    return (
+      <span
+        role="img"
+        aria-label={speaker.name}
+        className={`${box} shrink-0 rounded-full bg-gray-300 bg-cover bg-center`}
+        style={{ backgroundImage: `url(${JSON.stringify(speaker.avatar.trim())})` }}
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-hidden
+      className={`${box} shrink-0 inline-flex items-center justify-center rounded-full bg-white/70 text-gray-800 not-italic`}
+    >
+      {avatarText(speaker)}
+    </span>
+  );
+}
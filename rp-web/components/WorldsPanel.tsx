@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import type { WorldDraft, WorldItem } from "@/lib/rp-types";
+
+function emptyDraft(): WorldDraft {
+  return { name: "", description: "", setting: "", tone: "", scenario: "" };
+}
+
+function draftFrom(w: WorldItem): WorldDraft {
+  return {
+    name: w.name,
+    description: w.description ?? "",
+    setting: w.setting ?? "",
+    tone: w.tone ?? "",
+    scenario: w.scenario ?? "",
+  };
+}
+
+// Menu tab: pick the world new sessions are created in, and create/edit worlds.
+export default function WorldsPanel(props: {
+  worlds: WorldItem[];
+  selectedWorldId: string | null;
+  loading: boolean;
+  error: string | null;
+  onSelect: (id: string) => void;
+  onSave: (draft: WorldDraft, id: string | null) => Promise<boolean>;
+}) {
+  const { worlds, selectedWorldId, loading, error, onSelect, onSave } = props;
+
+  // null = list; "new" = create form; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<WorldDraft>(emptyDraft());
+  const [saving, setSaving] = useState(false);
+
+  const field = (key: keyof WorldDraft) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setDraft((d) => ({ ...d, [key]: e.target.value })),
+  });
+
+  async function submit() {
+    if (!draft.name.trim()) return;
+    setSaving(true);
+    const ok = await onSave(
+      { ...draft, name: draft.name.trim() },
+      editing === "new" ? null : editing
+    );
+    setSaving(false);
+    if (ok) setEditing(null);
+  }
+
+  if (editing) {
+    return (
+      <>
+        {error ? <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">{error}</div> : null}
+
+        <div className="mt-3 space-y-2 max-h-80 overflow-y-auto border rounded p-3">
+          <div className="font-semibold text-sm">{editing === "new" ? "New world" : "Edit world"}</div>
+
+          <label className="block text-xs text-gray-600">Name</label>
+          <input className="w-full border rounded px-3 py-2 text-sm" {...field("name")} />
+
+          <label className="block text-xs text-gray-600">Description (one line for the list)</label>
+          <input className="w-full border rounded px-3 py-2 text-sm" {...field("description")} />
+
+          <label className="block text-xs text-gray-600">Setting (place, era, rules of the world)</label>
+          <textarea className="w-full border rounded px-3 py-2 text-sm min-h-20" {...field("setting")} />
+
+          <label className="block text-xs text-gray-600">Tone</label>
+          <input
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="e.g. gritty noir, cozy slice-of-life"
+            {...field("tone")}
+          />
+
+          <label className="block text-xs text-gray-600">Starting scenario</label>
+          <textarea className="w-full border rounded px-3 py-2 text-sm min-h-20" {...field("scenario")} />
+        </div>
+
+        <div className="mt-3 flex gap-2">
+          <button
+            onClick={submit}
+            disabled={saving || !draft.name.trim()}
+            className="px-3 py-2 rounded bg-blue-600 text-white text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save world"}
+          </button>
+          <button onClick={() => setEditing(null)} className="px-3 py-2 rounded border text-sm">
+            Cancel
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={() => {
+            setDraft(emptyDraft());
+            setEditing("new");
+          }}
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm"
+        >
+          New world
+        </button>
+      </div>
+
+      {error ? <div className="mt-3 text-sm text-red-600 whitespace-pre-wrap">{error}</div> : null}
+
+      <div className="mt-3 text-xs text-gray-600">New sessions are created in the selected world.</div>
+
+      <div className="mt-2 max-h-80 overflow-y-auto divide-y border rounded">
+        {loading && worlds.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">Loading…</div>
+        ) : worlds.length === 0 ? (
+          <div className="p-3 text-sm text-gray-600">No worlds yet. Create one!</div>
+        ) : (
+          worlds.map((w) => (
+            <div key={w.id} className={`p-3 ${w.id === selectedWorldId ? "bg-gray-100" : ""}`}>
+              <button onClick={() => onSelect(w.id)} className="w-full text-left">
+                <div className="font-medium text-sm">
+                  {w.name}
+                  {w.id === selectedWorldId ? " ✓" : ""}
+                </div>
+                {w.description ? <div className="text-xs text-gray-600">{w.description}</div> : null}
+                {w.tone ? <div className="text-xs text-gray-500">Tone: {w.tone}</div> : null}
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(draftFrom(w));
+                  setEditing(w.id);
+                }}
+                className="mt-1 text-xs text-gray-600"
+              >
+                Edit
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
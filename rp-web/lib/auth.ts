@@ -0,0 +1,117 @@
+import type { NextAuthOptions } from "next-auth";
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import EmailProvider from "next-auth/providers/email";
+import PostgresAdapter from "@auth/pg-adapter";
+import { getPool } from "@/lib/pg";
+
+const pool = getPool();
+
+export const authOptions: NextAuthOptions = {
+  adapter: PostgresAdapter(pool),
+  providers: [
+    EmailProvider({
+      server: process.env.EMAIL_SERVER,
+      from: process.env.EMAIL_FROM,
+    }),
+  ],
+  pages: { signIn: "/signin", error: "/signin" },
+  callbacks: {
+    async signIn({ user, account }) {
+      const provider = account?.provider;
+      if (provider !== "email") return true;
+
+      const email = user.email?.trim().toLowerCase();
+      if (!email) return false;
+
+      const client = await pool.connect();
+      try {
+        const claim = await client.query(
+		  `
+		  select id, consumed_at
+		  from invite_claims
+		  where email = $1
+			and expires_at > now()
+			and (consumed_at is null or consumed_at > now() - interval '15 minutes')
+		  order by created_at desc
+		  limit 1
+		  `,
+		  [email]
+		);
+
+		if ((claim.rowCount ?? 0) === 0) return false;
+
+		// Only consume if it's not already consumed
+		if (!claim.rows[0].consumed_at) {
+		  await client.query(
+			`update invite_claims set consumed_at = now() where id = $1 and consumed_at is null`,
+			[claim.rows[0].id]
+		  );
+		}
+
+		return true;
+
+      } finally {
+        client.release();
+      }
+    },
+
+    // Database sessions: `user` is the adapter row, so custom columns such as
+    // `role` come straight from the users table.
+    async session({ session, user }) {
+      if (session.user) {
+        session.user.id = user.id;
+        session.user.role = user.role ?? null;
+      }
+      return session;
+    },
+  },
+};
+
+export type AuthUser = {
+  // auth.users.id, for rows this app owns per user (e.g. the library)
+  id: string;
+  email: string;
+  role: string | null;
+};
+
+// Returns the signed-in user with a normalized email (or null).
+// Server-only: never trust an email or role the browser sends us.
+export async function getAuthUser(): Promise<AuthUser | null> {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email?.trim().toLowerCase();
+  const id = session?.user?.id;
+  if (!email || !id) return null;
+  return { id, email, role: session?.user?.role ?? null };
+}
+
+export async function getVerifiedEmail(): Promise<string | null> {
+  return (await getAuthUser())?.email ?? null;
+}
+
+export function isAdmin(user: AuthUser | null): user is AuthUser {
+  return user?.role === "admin";
+}
+
+// For route handlers that need a signed-in user: the user, or the response to return.
+export async function requireUser(): Promise<
+  { user: AuthUser; error?: undefined } | { user?: undefined; error: NextResponse }
+> {
+  const user = await getAuthUser();
+  if (!user) {
+    return { error: NextResponse.json({ ok: false, error: "Not signed in" }, { status: 401 }) };
+  }
+  return { user };
+}
+
+// For admin-only route handlers: the admin user, or the response to return.
+export async function requireAdmin(): Promise<
+  { user: AuthUser; error?: undefined } | { user?: undefined; error: NextResponse }
+> {
+  const { user, error } = await requireUser();
+  if (error) return { error };
+  if (!isAdmin(user)) {
+    return { error: NextResponse.json({ ok: false, error: "Admins only" }, { status: 403 }) };
+  }
+  return { user };
+}
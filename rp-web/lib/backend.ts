@@ -0,0 +1,63 @@
+// Server-side access to the roleplay backend.
+// The access key and user identity are added here, never in the browser.
+
+const BACKEND_URL = process.env.RP_API_URL || "http://127.0.0.1:8000";
+
+// Request headers we pass through from the browser as-is.
+const FORWARD_REQUEST_HEADERS = ["content-type", "accept", "last-event-id"];
+
+// Response headers we pass back to the browser as-is.
+const FORWARD_RESPONSE_HEADERS = ["content-type", "cache-control", "retry-after"];
+
+export function backendHeaders(userEmail: string, init?: HeadersInit) {
+  const accessKey = process.env.RP_ACCESS_KEY;
+  if (!accessKey) {
+    throw new Error("Missing RP_ACCESS_KEY");
+  }
+
+  const h = new Headers(init);
+  h.set("X-Access-Key", accessKey);
+  h.set("X-User-Email", userEmail);
+  return h;
+}
+
+// Passes a browser request through to `${BACKEND_URL}/api/${path}`.
+// The body is streamed back untouched, so SSE (chat_stream) keeps working.
+export async function proxyToBackend(req: Request, path: string, userEmail: string) {
+  const incoming = new URL(req.url);
+  const target = `${BACKEND_URL}/api/${path}${incoming.search}`;
+
+  const headers = new Headers();
+  for (const name of FORWARD_REQUEST_HEADERS) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+
+  const upstream = await fetch(target, {
+    method: req.method,
+    headers: backendHeaders(userEmail, headers),
+    body: hasBody ? await req.arrayBuffer() : undefined,
+    // Abort the backend call when the browser goes away (Stop, navigation).
+    signal: req.signal,
+    cache: "no-store",
+  });
+
+  const resHeaders = new Headers();
+  for (const name of FORWARD_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) resHeaders.set(name, value);
+  }
+
+  if (resHeaders.get("content-type")?.startsWith("text/event-stream")) {
+    resHeaders.set("Cache-Control", "no-cache, no-transform");
+    resHeaders.set("X-Accel-Buffering", "no");
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: resHeaders,
+  });
+}
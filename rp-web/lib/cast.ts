@@ -0,0 +1,159 @@
+import { characterFromRaw, emptyCharacter } from "@/lib/sheets";
+import type { CastMember, CharacterSheet, ChatMessage, SceneCast, SpeakerMode } from "@/lib/rp-types";
+
+// Group scenes: several AI characters in one session, and picking which of
+// them replies to each turn.
+
+// Speaker id of the session's own (Setup) character
+export const LEAD_ID = "lead";
+
+export const SPEAKER_MODES: { mode: SpeakerMode; label: string; hint: string }[] = [
+  { mode: "manual", label: "Manual", hint: "You pick who replies" },
+  { mode: "round_robin", label: "Round-robin", hint: "Characters take turns" },
+  { mode: "auto", label: "Auto", hint: "Whoever you name, else whoever spoke least recently" },
+];
+
+// Anyone who can reply, the Setup character first
+export type Speaker = {
+  id: string;
+  name: string;
+  avatar: string;
+  present: boolean;
+};
+
+export function emptyCast(): SceneCast {
+  return { mode: "round_robin", lead_avatar: "", lead_present: true, members: [] };
+}
+
+export function newCastMember(sheet: CharacterSheet = emptyCharacter()): CastMember {
+  return { id: crypto.randomUUID(), sheet, avatar: "", present: true };
+}
+
+function isSpeakerMode(v: unknown): v is SpeakerMode {
+  return SPEAKER_MODES.some((m) => m.mode === v);
+}
+
+export function castFromState(state: Record<string, unknown>): SceneCast {
+  const raw = state.cast;
+  if (!raw || typeof raw !== "object") return emptyCast();
+  const c = raw as Record<string, unknown>;
+
+  const members = (Array.isArray(c.members) ? c.members : []).flatMap((m): CastMember[] => {
+    if (!m || typeof m !== "object") return [];
+    const r = m as Record<string, unknown>;
+    return [
+      {
+        id: typeof r.id === "string" && r.id && r.id !== LEAD_ID ? r.id : crypto.randomUUID(),
+        sheet: characterFromRaw(r.sheet),
+        avatar: typeof r.avatar === "string" ? r.avatar : "",
+        present: r.present !== false,
+      },
+    ];
+  });
+
+  return {
+    mode: isSpeakerMode(c.mode) ? c.mode : "round_robin",
+    lead_avatar: typeof c.lead_avatar === "string" ? c.lead_avatar : "",
+    lead_present: c.lead_present !== false,
+    members,
+  };
+}
+
+// A session is a group scene once it has more than its Setup character
+export function isGroupScene(cast: SceneCast) {
+  return cast.members.length > 0;
+}
+
+export function speakersOf(cast: SceneCast, lead: CharacterSheet): Speaker[] {
+  return [
+    {
+      id: LEAD_ID,
+      name: lead.name.trim() || "Character",
+      avatar: cast.lead_avatar,
+      present: cast.lead_present,
+    },
+    ...cast.members.map((m) => ({
+      id: m.id,
+      name: m.sheet.name.trim() || "Unnamed",
+      avatar: m.avatar,
+      present: m.present,
+    })),
+  ];
+}
+
+export function isImageAvatar(avatar: string) {
+  return /^(https?:\/\/|data:image\/)/i.test(avatar.trim());
+}
+
+// What to show when no avatar is set: the name's first letter
+export function avatarText(speaker: Pick<Speaker, "name" | "avatar">) {
+  return speaker.avatar.trim() || Array.from(speaker.name.trim())[0]?.toUpperCase() || "?";
+}
+
+// Replies from before the session became a group scene are the Setup
+// character's.
+function speakerIdOf(m: ChatMessage) {
+  return m.speaker_id ?? LEAD_ID;
+}
+
+// Index of the latest reply by `id` (any speaker when null), or -1
+function lastReplyIndex(messages: ChatMessage[], id: string | null) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role === "assistant" && (id === null || speakerIdOf(m) === id)) return i;
+  }
+  return -1;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Position of the first whole-word mention of `name` in `text`, or -1
+function mentionAt(text: string, name: string) {
+  if (!name.trim()) return -1;
+  const match = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name.trim())}(?![\\p{L}\\p{N}])`, "iu").exec(
+    text
+  );
+  return match ? match.index + match[1].length : -1;
+}
+
+// Who replies to `text`, given the history so far. Only present speakers
+// count; null when nobody is in the scene.
+//  - manual: `manualId` (falling back to the first present speaker)
+//  - round_robin: the one after whoever replied last
+//  - auto: the first one named in `text`; otherwise whoever has gone longest
+//    without replying, never the last speaker twice in a row
+export function nextSpeaker(
+  speakers: Speaker[],
+  mode: SpeakerMode,
+  messages: ChatMessage[],
+  text: string,
+  manualId: string | null
+): Speaker | null {
+  const present = speakers.filter((s) => s.present);
+  if (present.length === 0) return null;
+
+  if (mode === "manual") return present.find((s) => s.id === manualId) ?? present[0];
+
+  const last = lastReplyIndex(messages, null);
+  const lastId = last >= 0 ? speakerIdOf(messages[last]) : null;
+
+  if (mode === "round_robin") {
+    // A last speaker who has since left still holds their place in the order
+    const order = speakers.findIndex((s) => s.id === lastId);
+    if (order < 0) return present[0];
+    return present.find((s) => speakers.indexOf(s) > order) ?? present[0];
+  }
+
+  const mentioned = present
+    .map((s) => ({ s, at: mentionAt(text, s.name) }))
+    .filter((x) => x.at >= 0)
+    .sort((a, b) => a.at - b.at);
+  if (mentioned.length) return mentioned[0].s;
+
+  const candidates = present.length > 1 ? present.filter((s) => s.id !== lastId) : present;
+  return candidates.reduce((best, s) =>
+    lastReplyIndex(messages, s.id) < lastReplyIndex(messages, best.id) ? s : best
+  );
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { cardFromCharacter, cardFromPng, characterFromCard, pngWithCard } from "@/lib/character-card";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Length, type, data and a dummy CRC (the reader doesn't check it)
+function chunk(type: string, data: string) {
+  const bytes = Uint8Array.from(data, (ch) => ch.charCodeAt(0));
+  const out = new Uint8Array(12 + bytes.length);
+  new DataView(out.buffer).setUint32(0, bytes.length);
+  out.set(Uint8Array.from(type, (ch) => ch.charCodeAt(0)), 4);
+  out.set(bytes, 8);
+  return [...out];
+}
+
+function png(...chunks: number[][]) {
+  return Uint8Array.from([...SIGNATURE, ...chunks.flat(), ...chunk("IEND", "")]);
+}
+
+function cardText(name: string) {
+  return btoa(JSON.stringify({ spec: "chara_card_v2", spec_version: "2.0", data: { name } }));
+}
+
+function keywords(bytes: Uint8Array) {
+  const text = String.fromCharCode(...bytes);
+  return ["chara", "ccv3"].filter((k) => text.includes(`tEXt${k}\0`));
+}
+
+describe("pngWithCard", () => {
+  const card = cardFromCharacter(characterFromCard({ spec: "chara_card_v2", data: { name: "New" } }));
+
+  it("replaces the existing card", () => {
+    const out = pngWithCard(png(chunk("tEXt", `chara\0${cardText("Old")}`)), card);
+    expect((cardFromPng(out) as { data: { name: string } }).data.name).toBe("New");
+    expect(keywords(out)).toEqual(["chara"]);
+  });
+
+  it("drops a V3 card so readers don't load it instead", () => {
+    const out = pngWithCard(
+      png(chunk("tEXt", `chara\0${cardText("Old")}`), chunk("tEXt", `ccv3\0${cardText("Old")}`)),
+      card
+    );
+    expect(keywords(out)).toEqual(["chara"]);
+  });
+
+  it("keeps other text chunks", () => {
+    const out = pngWithCard(png(chunk("tEXt", "Software\0paint")), card);
+    expect(String.fromCharCode(...out)).toContain("Software\0paint");
+  });
+});
@@ -0,0 +1,281 @@
+import { fileSlug } from "@/lib/download";
+import type { CharacterSheet } from "@/lib/rp-types";
+
+// Character Card V2 (the community format used by SillyTavern & co.) to and
+// from our CharacterSheet. Cards come as plain JSON or as a PNG carrying the
+// JSON base64-encoded in a tEXt chunk with the keyword "chara".
+//
+// Everything runs in the browser: no upload, no outside service.
+
+export type CharacterCardV2 = {
+  spec: "chara_card_v2";
+  spec_version: "2.0";
+  data: Record<string, unknown>;
+};
+
+// V2 field -> sheet field; everything else in `data` goes to card_extra
+const MAPPED_FIELDS = {
+  name: "name",
+  description: "description",
+  personality: "personality",
+  scenario: "scenario",
+  first_mes: "first_message",
+  mes_example: "example_dialogues",
+  system_prompt: "system_prompt",
+} as const satisfies Record<string, keyof CharacterSheet>;
+
+// Our own sheet fields with no V2 equivalent, stored under data.extensions
+const EXTENSION_KEY = "echoverse";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CARD_KEYWORD = "chara";
+// Character Card V3; readers such as SillyTavern prefer it over "chara"
+const CARD_V3_KEYWORD = "ccv3";
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function asString(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+// Accepts V2 ({spec, data}) and the older flat V1 layout.
+export function characterFromCard(card: unknown): CharacterSheet {
+  if (!isObject(card)) throw new Error("Not a character card.");
+
+  const data = isObject(card.data) ? card.data : card;
+  if (typeof data.name !== "string") throw new Error("Not a character card (missing name).");
+
+  const extra: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in MAPPED_FIELDS)) extra[key] = value;
+  }
+
+  let style = "";
+  let rules = "";
+  if (isObject(extra.extensions) && isObject(extra.extensions[EXTENSION_KEY])) {
+    const { [EXTENSION_KEY]: ours, ...others } = extra.extensions;
+    style = asString((ours as Record<string, unknown>).style);
+    rules = asString((ours as Record<string, unknown>).rules);
+    extra.extensions = others;
+  }
+
+  return {
+    name: asString(data.name),
+    description: asString(data.description),
+    personality: asString(data.personality),
+    style,
+    rules,
+    scenario: asString(data.scenario),
+    first_message: asString(data.first_mes),
+    example_dialogues: asString(data.mes_example),
+    system_prompt: asString(data.system_prompt),
+    ...(Object.keys(extra).length ? { card_extra: extra } : {}),
+  };
+}
+
+export function cardFromCharacter(character: CharacterSheet): CharacterCardV2 {
+  const extra = character.card_extra ?? {};
+  const extensions = isObject(extra.extensions) ? { ...extra.extensions } : {};
+  if (character.style || character.rules) {
+    extensions[EXTENSION_KEY] = { style: character.style, rules: character.rules };
+  }
+
+  const data: Record<string, unknown> = {
+    // Required by the spec; imported values in `extra` win
+    creator_notes: "",
+    post_history_instructions: "",
+    alternate_greetings: [],
+    tags: [],
+    creator: "",
+    character_version: "",
+    ...extra,
+    extensions,
+  };
+  for (const [cardKey, sheetKey] of Object.entries(MAPPED_FIELDS)) {
+    data[cardKey] = character[sheetKey];
+  }
+
+  return { spec: "chara_card_v2", spec_version: "2.0", data };
+}
+
+// ---- PNG chunks ----
+
+type PngChunk = { type: string; data: Uint8Array };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+export function isPng(bytes: Uint8Array) {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new Error("Not a PNG file.");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let pos = PNG_SIGNATURE.length;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length;
+    if (end > bytes.length) throw new Error("PNG file is truncated.");
+
+    chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+    pos = end;
+    if (type === "IEND") break;
+  }
+
+  return chunks;
+}
+
+function writeChunks(chunks: PngChunk[]): Uint8Array {
+  const size = PNG_SIGNATURE.length + chunks.reduce((n, c) => n + 12 + c.data.length, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+
+  let pos = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    const typeBytes = Uint8Array.from(chunk.type, (ch) => ch.charCodeAt(0));
+    view.setUint32(pos, chunk.data.length);
+    out.set(typeBytes, pos + 4);
+    out.set(chunk.data, pos + 8);
+    view.setUint32(pos + 8 + chunk.data.length, crc32(out.subarray(pos + 4, pos + 8 + chunk.data.length)));
+    pos += 12 + chunk.data.length;
+  }
+
+  return out;
+}
+
+function latin1(bytes: Uint8Array) {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return s;
+}
+
+// Keyword of any text chunk (tEXt, zTXt or iTXt), compressed or not.
+function chunkKeyword(chunk: PngChunk): string | null {
+  if (chunk.type !== "tEXt" && chunk.type !== "zTXt" && chunk.type !== "iTXt") return null;
+  const nul = chunk.data.indexOf(0);
+  return nul < 0 ? null : latin1(chunk.data.subarray(0, nul));
+}
+
+// Keyword and text of a tEXt chunk, or of an uncompressed iTXt chunk.
+function textChunk(chunk: PngChunk): { keyword: string; text: string } | null {
+  const nul = chunk.data.indexOf(0);
+  if (nul < 0) return null;
+  const keyword = latin1(chunk.data.subarray(0, nul));
+
+  if (chunk.type === "tEXt") {
+    return { keyword, text: latin1(chunk.data.subarray(nul + 1)) };
+  }
+
+  if (chunk.type === "iTXt" && chunk.data[nul + 1] === 0) {
+    // compression flag, method, language tag \0, translated keyword \0, text
+    let pos = chunk.data.indexOf(0, nul + 3);
+    if (pos >= 0) pos = chunk.data.indexOf(0, pos + 1);
+    if (pos < 0) return null;
+    return { keyword, text: new TextDecoder().decode(chunk.data.subarray(pos + 1)) };
+  }
+
+  return null;
+}
+
+function base64ToUtf8(b64: string) {
+  const binary = atob(b64.trim());
+  return new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+}
+
+function utf8ToBase64(text: string) {
+  return btoa(latin1(new TextEncoder().encode(text)));
+}
+
+export function cardFromPng(bytes: Uint8Array): unknown {
+  for (const chunk of readChunks(bytes)) {
+    const t = textChunk(chunk);
+    if (t?.keyword !== CARD_KEYWORD) continue;
+
+    const raw = t.text.trim();
+    // Some tools write the JSON without base64
+    return JSON.parse(raw.startsWith("{") ? raw : base64ToUtf8(raw));
+  }
+
+  throw new Error("This PNG has no character card data.");
+}
+
+// Returns a copy of `png` carrying `card`, replacing any card already in it
+// (a V3 card left behind would be read instead of this one).
+export function pngWithCard(png: Uint8Array, card: CharacterCardV2): Uint8Array {
+  const chunks = readChunks(png).filter((c) => {
+    const keyword = chunkKeyword(c);
+    return keyword !== CARD_KEYWORD && keyword !== CARD_V3_KEYWORD;
+  });
+  const iend = chunks.findIndex((c) => c.type === "IEND");
+  if (iend < 0) throw new Error("PNG file is truncated.");
+
+  const text = `${CARD_KEYWORD}\0${utf8ToBase64(JSON.stringify(card))}`;
+  chunks.splice(iend, 0, { type: "tEXt", data: Uint8Array.from(text, (ch) => ch.charCodeAt(0)) });
+  return writeChunks(chunks);
+}
+
+// Parses a .json or .png card file. `png` is the original image, so a PNG
+// export can reuse the artwork.
+export async function readCardFile(file: File): Promise<{ character: CharacterSheet; png: Uint8Array | null }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isPng(bytes)) {
+    return { character: characterFromCard(cardFromPng(bytes)), png: bytes };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("Expected a character card as .json or .png.");
+  }
+  return { character: characterFromCard(json), png: null };
+}
+
+// Simple portrait (initial on a colored square) for cards without artwork.
+export async function placeholderPng(name: string): Promise<Uint8Array> {
+  const canvas = document.createElement("canvas");
+  canvas.width = 400;
+  canvas.height = 600;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+
+  let hue = 0;
+  for (const ch of name) hue = (hue * 31 + ch.charCodeAt(0)) % 360;
+  ctx.fillStyle = `hsl(${hue} 45% 40%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 180px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText((name.trim()[0] ?? "?").toUpperCase(), canvas.width / 2, canvas.height / 2);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not render the card image.");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function cardFileName(name: string, ext: "json" | "png") {
+  return `${fileSlug(name, "character")}.${ext}`;
+}
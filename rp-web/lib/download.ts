@@ -0,0 +1,14 @@
+// Saves a Blob as a file via a temporary object URL.
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// File-name-safe version of a title ("Zoë's story" -> "Zoë_s_story").
+export function fileSlug(name: string, fallback: string) {
+  return name.trim().replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_+|_+$/g, "") || fallback;
+}
@@ -0,0 +1,52 @@
+import type { GenerationSettings, ResponseLength } from "@/lib/rp-types";
+
+export const RESPONSE_LENGTHS: { value: ResponseLength; label: string }[] = [
+  { value: "short", label: "Short" },
+  { value: "medium", label: "Medium" },
+  { value: "long", label: "Long" },
+];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_TOKENS_RANGE = { min: 16, max: 8192 };
+export const MAX_STOP_SEQUENCES = 4;
+
+export function defaultGeneration(): GenerationSettings {
+  return { temperature: null, max_tokens: null, model: "", response_length: "medium", stop: [] };
+}
+
+function clampOrNull(v: unknown, range: { min: number; max: number }, integer = false) {
+  if (typeof v !== "number" || !Number.isFinite(v)) return null;
+  const n = Math.min(range.max, Math.max(range.min, v));
+  return integer ? Math.round(n) : n;
+}
+
+// Settings from session state, the database or a request body; anything
+// invalid falls back to the default for that field.
+export function generationFromRaw(raw: unknown): GenerationSettings {
+  const g = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const length = RESPONSE_LENGTHS.find((l) => l.value === g.response_length)?.value;
+
+  return {
+    temperature: clampOrNull(g.temperature, TEMPERATURE_RANGE),
+    max_tokens: clampOrNull(g.max_tokens, MAX_TOKENS_RANGE, true),
+    model: typeof g.model === "string" ? g.model.trim().slice(0, 200) : "",
+    response_length: length ?? "medium",
+    stop: Array.isArray(g.stop)
+      ? g.stop
+          .filter((s): s is string => typeof s === "string" && s.length > 0)
+          .map((s) => s.slice(0, 100))
+          .slice(0, MAX_STOP_SEQUENCES)
+      : [],
+  };
+}
+
+// The `generation` object of a chat_stream body: unset fields are left out.
+export function generationForRequest(g: GenerationSettings): Record<string, unknown> {
+  return {
+    ...(g.temperature != null ? { temperature: g.temperature } : {}),
+    ...(g.max_tokens != null ? { max_tokens: g.max_tokens } : {}),
+    ...(g.model ? { model: g.model } : {}),
+    response_length: g.response_length,
+    ...(g.stop.length ? { stop: g.stop } : {}),
+  };
+}
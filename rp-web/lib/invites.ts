@@ -0,0 +1,33 @@
+import { randomBytes } from "crypto";
+
+// No 0/O/1/I/L so codes survive being read aloud or retyped from a screenshot.
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export const INVITE_CODE_PATTERN = /^[A-Za-z0-9_-]{3,64}$/;
+
+// e.g. "K7QM-2XHD"
+export function generateInviteCode(groups = 2, groupSize = 4) {
+  const bytes = randomBytes(groups * groupSize);
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]);
+
+  const parts: string[] = [];
+  for (let i = 0; i < groups; i++) {
+    parts.push(chars.slice(i * groupSize, (i + 1) * groupSize).join(""));
+  }
+  return parts.join("-");
+}
+
+// max_uses: null means unlimited. Returns undefined when the value is invalid.
+export function parseMaxUses(value: unknown): number | null | undefined {
+  if (value === null || value === "") return null;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 1) return undefined;
+  return n;
+}
+
+export type ClaimStatus = "consumed" | "pending" | "expired";
+
+export function claimStatus(row: { consumed_at: Date | null; expires_at: Date }): ClaimStatus {
+  if (row.consumed_at) return "consumed";
+  return row.expires_at.getTime() > Date.now() ? "pending" : "expired";
+}
@@ -0,0 +1,47 @@
+import type { PoolClient } from "pg";
+import { getPool } from "@/lib/pg";
+import type { LibraryKind } from "@/lib/rp-types";
+import { characterFromRaw, playerFromRaw } from "@/lib/sheets";
+
+export const LIBRARY_KINDS: readonly LibraryKind[] = ["character", "persona"];
+
+// Most items a user may keep per kind
+export const LIBRARY_MAX_ITEMS = 500;
+
+// Runs `fn` in a transaction holding the user's library lock, so concurrent
+// adds can't each pass the LIBRARY_MAX_ITEMS check and overshoot it.
+export async function withLibraryLock<T>(userId: string, fn: (client: PoolClient) => Promise<T>) {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`select pg_advisory_xact_lock(hashtextextended($1, 0))`, [`library:${userId}`]);
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export function isLibraryKind(v: unknown): v is LibraryKind {
+  return LIBRARY_KINDS.includes(v as LibraryKind);
+}
+
+// Normalizes a sheet from the request body, so only known fields are stored.
+export function sheetForKind(kind: LibraryKind, raw: unknown) {
+  return kind === "character" ? characterFromRaw(raw) : playerFromRaw(raw);
+}
+
+// Name shown in the library: explicit name, else the sheet's own name.
+export function libraryItemName(name: unknown, sheet: { name: string }): string {
+  const explicit = typeof name === "string" ? name.trim() : "";
+  return (explicit || sheet.name.trim()).slice(0, 200);
+}
+
+export const LIBRARY_COLUMNS = "id, kind, name, sheet, updated_at";
+
+// Item ids are uuids; anything else can't match a row
+export const LIBRARY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
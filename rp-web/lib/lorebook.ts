@@ -0,0 +1,74 @@
+import type { ChatMessage, LoreEntry } from "@/lib/rp-types";
+
+// How many of the latest messages are scanned for trigger keywords
+export const LORE_SCAN_DEPTH = 4;
+
+export function newLoreEntry(): LoreEntry {
+  return {
+    id: crypto.randomUUID(),
+    title: "",
+    keywords: [],
+    content: "",
+    priority: 0,
+    enabled: true,
+  };
+}
+
+export function parseKeywords(text: string): string[] {
+  return text
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Case-insensitive, whole words only ("ash" doesn't fire on "washing").
+function keywordPattern(keyword: string) {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, "iu");
+}
+
+// Lorebook entries as stored in session/world state; tolerates partial rows.
+export function loreFromState(raw: unknown): LoreEntry[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((e): e is Record<string, unknown> => !!e && typeof e === "object")
+    .map((e) => ({
+      id: typeof e.id === "string" && e.id ? e.id : crypto.randomUUID(),
+      title: typeof e.title === "string" ? e.title : "",
+      keywords: Array.isArray(e.keywords)
+        ? e.keywords.filter((k): k is string => typeof k === "string")
+        : [],
+      content: typeof e.content === "string" ? e.content : "",
+      priority: typeof e.priority === "number" ? e.priority : 0,
+      enabled: e.enabled !== false,
+    }));
+}
+
+export type LoreMatch = {
+  entry: LoreEntry;
+  keywords: string[];
+};
+
+// Which enabled entries the latest turns trigger, highest priority first.
+// This is the client's view of keyword activation, used to debug why the AI
+// does or doesn't bring an entry up.
+export function matchLore(entries: LoreEntry[], messages: ChatMessage[]): LoreMatch[] {
+  const text = messages
+    .slice(-LORE_SCAN_DEPTH)
+    .map((m) => m.content)
+    .join("\n");
+  if (!text) return [];
+
+  const matches: LoreMatch[] = [];
+  for (const entry of entries) {
+    if (!entry.enabled) continue;
+    const hit = entry.keywords.filter((k) => keywordPattern(k).test(text));
+    if (hit.length) matches.push({ entry, keywords: hit });
+  }
+
+  return matches.sort((a, b) => b.entry.priority - a.entry.priority);
+}
@@ -0,0 +1,77 @@
+import type { MemoryEntry, SessionMemory } from "@/lib/rp-types";
+
+export function emptyMemory(): SessionMemory {
+  return { summary: "", facts: [], relationships: [] };
+}
+
+export function newMemoryEntry(text: string, messageId?: string): MemoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    text,
+    pinned: false,
+    ...(messageId ? { message_id: messageId } : {}),
+  };
+}
+
+// Entries may be stored as plain strings (backend-written) or as objects.
+function entriesFromRaw(raw: unknown): MemoryEntry[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((e): MemoryEntry[] => {
+    if (typeof e === "string") return e.trim() ? [newMemoryEntry(e)] : [];
+    if (!e || typeof e !== "object") return [];
+
+    const r = e as Record<string, unknown>;
+    const text = typeof r.text === "string" ? r.text : typeof r.content === "string" ? r.content : "";
+    if (!text.trim()) return [];
+
+    return [
+      {
+        id: typeof r.id === "string" && r.id ? r.id : crypto.randomUUID(),
+        text,
+        pinned: r.pinned === true,
+        ...(typeof r.message_id === "string" ? { message_id: r.message_id } : {}),
+      },
+    ];
+  });
+}
+
+// Memory from session state: `memory.{summary,facts,relationships}`, falling
+// back to the same keys at the top level (older backend versions).
+export function memoryFromState(state: Record<string, unknown>): SessionMemory {
+  const m = (state.memory && typeof state.memory === "object" ? state.memory : state) as Record<
+    string,
+    unknown
+  >;
+
+  return {
+    summary: typeof m.summary === "string" ? m.summary : "",
+    facts: entriesFromRaw(m.facts ?? m.key_facts),
+    relationships: entriesFromRaw(m.relationships),
+  };
+}
+
+// Pinned first, otherwise in the order they were added.
+export function sortedEntries(entries: MemoryEntry[]) {
+  return [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned));
+}
+
+const GIST_MAX = 240;
+
+// Short version of a message for "remember this": markup stripped, first
+// sentences up to GIST_MAX characters.
+export function gistOf(text: string) {
+  const plain = text
+    .replace(/[*_`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (plain.length <= GIST_MAX) return plain;
+
+  const sentences = plain.match(/[^.!?…]+[.!?…]+["”’)]*\s*/g) ?? [];
+  let gist = "";
+  for (const s of sentences) {
+    if ((gist + s).length > GIST_MAX) break;
+    gist += s;
+  }
+  return gist.trim() || `${plain.slice(0, GIST_MAX - 1).trimEnd()}…`;
+}
@@ -0,0 +1,31 @@
+import type { MessageKind } from "@/lib/rp-types";
+
+export const MESSAGE_KINDS: { kind: MessageKind; label: string; command: string | null; hint: string }[] = [
+  { kind: "say", label: "Say", command: null, hint: "In character" },
+  { kind: "me", label: "Act", command: "/me", hint: "An action your character takes" },
+  { kind: "ooc", label: "OOC", command: "/ooc", hint: "Out of character, to the AI itself" },
+  {
+    kind: "narrate",
+    label: "Direct",
+    command: "/narrate",
+    hint: "A director's note the story follows, not a line anyone says",
+  },
+];
+
+export function isMessageKind(v: unknown): v is MessageKind {
+  return MESSAGE_KINDS.some((k) => k.kind === v);
+}
+
+// "/ooc brb" -> { kind: "ooc", text: "brb" }; text without a known command
+// keeps the selected mode.
+export function parseSlashCommand(text: string, fallback: MessageKind): { kind: MessageKind; text: string } {
+  const match = text.match(/^\/(\w+)\s+([\s\S]*)$/);
+  const entry = match && MESSAGE_KINDS.find((k) => k.command === `/${match[1].toLowerCase()}`);
+  if (!match || !entry) return { kind: fallback, text };
+  return { kind: entry.kind, text: match[2].trim() };
+}
+
+// Turns outside the story itself: exports can leave them out
+export function isAsideKind(kind: MessageKind | undefined) {
+  return kind === "ooc" || kind === "narrate";
+}
@@ -0,0 +1,84 @@
+import type { MessageKind } from "@/lib/rp-types";
+
+// Client-side persistence for flaky connections: per-session drafts, and
+// messages written while offline (the outbox), both in localStorage.
+
+// A message waiting for the connection to come back
+export type QueuedMessage = {
+  id: string;
+  session_id: string;
+  text: string;
+  kind: MessageKind;
+  queued_at: string;
+  // The last attempt never reached the backend; waits for a manual retry
+  failed?: boolean;
+};
+
+const OUTBOX_KEY = "rp_outbox";
+const DRAFT_PREFIX = "rp_draft_";
+// Who the outbox, drafts and the service worker's data cache belong to
+const OWNER_KEY = "rp_offline_owner";
+
+function isQueuedMessage(v: unknown): v is QueuedMessage {
+  if (!v || typeof v !== "object") return false;
+  const q = v as Record<string, unknown>;
+  return typeof q.id === "string" && typeof q.session_id === "string" && typeof q.text === "string";
+}
+
+export function readOutbox(): QueuedMessage[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isQueuedMessage) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeOutbox(items: QueuedMessage[]) {
+  if (items.length) localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  else localStorage.removeItem(OUTBOX_KEY);
+}
+
+export function newQueuedMessage(sessionId: string, text: string, kind: MessageKind): QueuedMessage {
+  return {
+    id: crypto.randomUUID(),
+    session_id: sessionId,
+    text,
+    kind,
+    queued_at: new Date().toISOString(),
+  };
+}
+
+export function readDraft(sessionId: string | null) {
+  if (!sessionId || typeof window === "undefined") return "";
+  return localStorage.getItem(DRAFT_PREFIX + sessionId) ?? "";
+}
+
+// An empty draft removes the entry, so sent/cleared drafts don't pile up
+export function writeDraft(sessionId: string | null, text: string) {
+  if (!sessionId) return;
+  if (text.trim()) localStorage.setItem(DRAFT_PREFIX + sessionId, text);
+  else localStorage.removeItem(DRAFT_PREFIX + sessionId);
+}
+
+// Offline data is only kept for the user who saved it: when someone else
+// signs in (or nobody is signed in) the outbox, drafts and the service
+// worker's cached API responses are dropped. Returns whether anything was.
+export function claimOfflineData(userEmail: string | null) {
+  const owner = userEmail ?? "";
+  if (localStorage.getItem(OWNER_KEY) === owner) return false;
+
+  localStorage.removeItem(OUTBOX_KEY);
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith(DRAFT_PREFIX)) localStorage.removeItem(key);
+  }
+  localStorage.setItem(OWNER_KEY, owner);
+
+  navigator.serviceWorker
+    ?.getRegistration()
+    .then((registration) => registration?.active?.postMessage({ type: "clear-data" }))
+    // Only fails where no worker can run, so there is no cache to clear
+    .catch(() => {});
+  return true;
+}
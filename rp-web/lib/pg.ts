@@ -19,7 +19,8 @@ export function getPool() {
   if (!global.__pgPool) {
     const pool = new Pool({
       connectionString: process.env.DATABASE_URL,
-      ssl: { rejectUnauthorized: false },
+      // Hosted Postgres needs TLS; a local dev database usually has none.
+      ssl: /sslmode=disable/.test(process.env.DATABASE_URL) ? false : { rejectUnauthorized: false },
       max: 5,
     });
 
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { clientIp } from "@/lib/rate-limit";
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost/api/invite/claim", { headers });
+}
+
+describe("clientIp", () => {
+  it("uses the hop appended by the trusted proxy, not the client-supplied ones", () => {
+    const req = request({ "x-forwarded-for": "1.2.3.4, 5.6.7.8, 203.0.113.9" });
+    expect(clientIp(req, 1)).toBe("203.0.113.9");
+  });
+
+  it("counts several trusted proxies from the right", () => {
+    const req = request({ "x-forwarded-for": "spoofed, 203.0.113.9, 10.0.0.2" });
+    expect(clientIp(req, 2)).toBe("203.0.113.9");
+  });
+
+  it("falls back to X-Real-IP when the header is shorter than the proxy chain", () => {
+    const req = request({ "x-forwarded-for": "203.0.113.9", "x-real-ip": "198.51.100.1" });
+    expect(clientIp(req, 2)).toBe("198.51.100.1");
+  });
+
+  it("ignores X-Forwarded-For without trusted proxies", () => {
+    const req = request({ "x-forwarded-for": "1.2.3.4" });
+    expect(clientIp(req, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import type { PoolClient } from "pg";
+import { NextResponse } from "next/server";
+import { getPool } from "@/lib/pg";
+
+// Postgres-backed rate limiting, shared by every instance that uses getPool().
+//
+// - Sliding window log: one row per hit in rate_limit_events; a hit is allowed
+//   while fewer than `limit` hits exist in the last `windowSeconds`.
+// - Progressive lockout: rate_limit_lockouts counts recent failures per key
+//   (e.g. invalid invite codes) and locks the key for a doubling duration
+//   once `threshold` is reached.
+//
+// Each check takes a transaction-scoped advisory lock on (bucket, key), so
+// concurrent requests on different instances can't both slip under the limit.
+
+export type RateLimitRule = {
+  bucket: string;
+  limit: number;
+  windowSeconds: number;
+};
+
+export type LockoutRule = {
+  bucket: string;
+  // Failures before the first lockout
+  threshold: number;
+  baseLockSeconds: number;
+  maxLockSeconds: number;
+  // Failures older than this are forgotten
+  resetAfterSeconds: number;
+};
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfter: number };
+
+const ALLOWED: RateLimitResult = { ok: true };
+
+async function withKeyLock<T>(bucket: string, key: string, fn: (client: PoolClient) => Promise<T>) {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`select pg_advisory_xact_lock(hashtextextended($1, 0))`, [`${bucket}:${key}`]);
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Records a hit for `key` unless it is over the limit.
+export async function hitRateLimit(rule: RateLimitRule, key: string): Promise<RateLimitResult> {
+  return withKeyLock(rule.bucket, key, async (client) => {
+    await client.query(
+      `
+      delete from rate_limit_events
+      where bucket = $1 and key = $2
+        and created_at <= now() - make_interval(secs => $3)
+      `,
+      [rule.bucket, key, rule.windowSeconds]
+    );
+
+    const recent = await client.query(
+      `
+      select count(*)::int as hits,
+             extract(epoch from (min(created_at) + make_interval(secs => $3) - now())) as reset_in
+      from rate_limit_events
+      where bucket = $1 and key = $2
+      `,
+      [rule.bucket, key, rule.windowSeconds]
+    );
+
+    const { hits, reset_in } = recent.rows[0];
+    if (hits >= rule.limit) {
+      return { ok: false, retryAfter: Math.max(1, Math.ceil(Number(reset_in))) };
+    }
+
+    await client.query(`insert into rate_limit_events (bucket, key) values ($1, $2)`, [rule.bucket, key]);
+
+    // Opportunistic cleanup of keys nobody hits anymore
+    if (Math.random() < 0.01) {
+      await client.query(`delete from rate_limit_events where created_at < now() - interval '1 day'`);
+    }
+
+    return ALLOWED;
+  });
+}
+
+// Applies every rule to its key; stops at the first one that is exceeded.
+export async function hitRateLimits(checks: [RateLimitRule, string | null][]): Promise<RateLimitResult> {
+  for (const [rule, key] of checks) {
+    if (!key) continue;
+    const result = await hitRateLimit(rule, key);
+    if (!result.ok) return result;
+  }
+  return ALLOWED;
+}
+
+export async function checkLockout(rule: LockoutRule, key: string): Promise<RateLimitResult> {
+  const res = await getPool().query(
+    `
+    select extract(epoch from (locked_until - now())) as locked_for
+    from rate_limit_lockouts
+    where bucket = $1 and key = $2 and locked_until > now()
+    `,
+    [rule.bucket, key]
+  );
+
+  if ((res.rowCount ?? 0) === 0) return ALLOWED;
+  return { ok: false, retryAfter: Math.max(1, Math.ceil(Number(res.rows[0].locked_for))) };
+}
+
+// Counts a failure; from `threshold` on, each failure locks the key for
+// baseLockSeconds * 2^(failures - threshold), capped at maxLockSeconds.
+export async function recordFailure(rule: LockoutRule, key: string): Promise<void> {
+  await withKeyLock(rule.bucket, key, async (client) => {
+    const res = await client.query(
+      `
+      insert into rate_limit_lockouts (bucket, key, failures, updated_at)
+      values ($1, $2, 1, now())
+      on conflict (bucket, key) do update
+        set failures = case
+              when rate_limit_lockouts.updated_at < now() - make_interval(secs => $3) then 1
+              else rate_limit_lockouts.failures + 1
+            end,
+            updated_at = now()
+      returning failures
+      `,
+      [rule.bucket, key, rule.resetAfterSeconds]
+    );
+
+    const failures: number = res.rows[0].failures;
+    if (failures < rule.threshold) return;
+
+    const lockSeconds = Math.min(
+      rule.maxLockSeconds,
+      rule.baseLockSeconds * 2 ** (failures - rule.threshold)
+    );
+
+    await client.query(
+      `
+      update rate_limit_lockouts
+      set locked_until = now() + make_interval(secs => $3)
+      where bucket = $1 and key = $2
+      `,
+      [rule.bucket, key, lockSeconds]
+    );
+  });
+}
+
+export async function clearFailures(rule: LockoutRule, key: string): Promise<void> {
+  await getPool().query(`delete from rate_limit_lockouts where bucket = $1 and key = $2`, [
+    rule.bucket,
+    key,
+  ]);
+}
+
+// Reverse proxies in front of the app that each append to X-Forwarded-For
+// (TRUSTED_PROXY_HOPS, default 1).
+function trustedProxyHops() {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+// Client IP as seen by our outermost trusted proxy. X-Forwarded-For entries
+// to the left of the ones our proxies appended come from the client and can
+// be anything, so the address is counted from the right. With no trusted
+// proxies (or a header too short to have passed through them) only
+// X-Real-IP is used, which must then be set by the platform.
+export function clientIp(req: Request, hops = trustedProxyHops()): string | null {
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  return req.headers.get("x-real-ip")?.trim() || null;
+}
+
+export function tooManyRequests(retryAfter: number, body: Record<string, unknown> = {}) {
+  return NextResponse.json(
+    { ok: false, error: "Too many attempts. Please try again later.", retry_after: retryAfter, ...body },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
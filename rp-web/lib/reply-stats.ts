@@ -0,0 +1,64 @@
+import type { ReplyStats } from "@/lib/rp-types";
+
+function num(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined;
+}
+
+// Token counts from a `usage` (or `done`) payload; accepts both the
+// prompt/completion and input/output naming.
+export function usageFromPayload(data: Record<string, unknown>): ReplyStats {
+  const usage = (data.usage && typeof data.usage === "object" ? data.usage : data) as Record<string, unknown>;
+  const prompt = num(usage.prompt_tokens) ?? num(usage.input_tokens);
+  const completion = num(usage.completion_tokens) ?? num(usage.output_tokens);
+  const total = num(usage.total_tokens) ?? (prompt != null && completion != null ? prompt + completion : undefined);
+
+  const stats: ReplyStats = {};
+  if (prompt != null) stats.prompt_tokens = prompt;
+  if (completion != null) stats.completion_tokens = completion;
+  if (total != null) stats.total_tokens = total;
+  return stats;
+}
+
+// Drops undefined fields so merging never erases a known value.
+export function mergeStats(a: ReplyStats | undefined, b: ReplyStats): ReplyStats {
+  const next: ReplyStats = { ...a };
+  for (const [k, v] of Object.entries(b)) {
+    if (v !== undefined) (next as Record<string, unknown>)[k] = v;
+  }
+  return next;
+}
+
+// Stats stored with a message by the backend, if any.
+export function statsFromRaw(raw: unknown): ReplyStats | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const stats = mergeStats(usageFromPayload(r), {
+    ttft_ms: num(r.ttft_ms),
+    duration_ms: num(r.duration_ms),
+    finish_reason: typeof r.finish_reason === "string" ? r.finish_reason : undefined,
+    model: typeof r.model === "string" ? r.model : undefined,
+  });
+  return Object.keys(stats).length ? stats : undefined;
+}
+
+// Cut off by the token limit, so "continue" makes sense.
+export function isTruncated(stats: ReplyStats | undefined) {
+  return stats?.finish_reason === "length" || stats?.finish_reason === "max_tokens";
+}
+
+const FINISH_LABELS: Record<string, string> = {
+  stop: "Finished",
+  end_turn: "Finished",
+  length: "Cut off (max length)",
+  max_tokens: "Cut off (max length)",
+  content_filter: "Stopped by content filter",
+  interrupted: "Stopped by you",
+};
+
+export function finishLabel(reason: string) {
+  return FINISH_LABELS[reason] ?? reason;
+}
+
+export function formatMs(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,225 @@
+// Parses RP-flavoured Markdown into a small tree the chat renders as React
+// elements (never as HTML): *actions*, "dialogue", (OOC: asides), **bold**,
+// _emphasis_, `code`, and -/1. lists.
+//
+// While a reply is streaming, an unclosed marker on the line still being
+// written styles the rest of it (so "*walks" already reads as an action); in
+// finished text it is shown literally.
+
+export type InlineKind = "strong" | "action" | "em" | "dialogue" | "ooc" | "code";
+
+// `open`: the closing marker hasn't streamed in yet
+export type InlineNode = string | { kind: InlineKind; children: InlineNode[]; open?: boolean };
+
+export type Block =
+  | { kind: "paragraph"; lines: InlineNode[][] }
+  | { kind: "ooc"; lines: InlineNode[][] }
+  | { kind: "list"; ordered: boolean; items: InlineNode[][] };
+
+type TextBlock = Extract<Block, { lines: InlineNode[][] }>;
+
+type Frame = {
+  kind: InlineKind;
+  // Literal text that opened the frame (re-emitted if it never closes)
+  marker: string;
+  closer: string;
+  children: InlineNode[];
+};
+
+const OOC_OPENER = /^\(\s*OOC\s*:/i;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+function isWordChar(ch: string | undefined) {
+  return !!ch && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function isSpace(ch: string | undefined) {
+  return !ch || /\s/.test(ch);
+}
+
+function pushText(target: InlineNode[], text: string) {
+  if (!text) return;
+  const last = target[target.length - 1];
+  if (typeof last === "string") target[target.length - 1] = last + text;
+  else target.push(text);
+}
+
+export function parseInline(text: string, streaming = false): InlineNode[] {
+  const root: InlineNode[] = [];
+  const stack: Frame[] = [];
+  // OOC asides may contain their own parentheses
+  let oocDepth = 0;
+
+  const out = () => (stack.length ? stack[stack.length - 1].children : root);
+  const append = (nodes: InlineNode[]) => {
+    for (const n of nodes) {
+      if (typeof n === "string") pushText(out(), n);
+      else out().push(n);
+    }
+  };
+  const open = (kind: InlineKind, marker: string, closer: string) =>
+    stack.push({ kind, marker, closer, children: [] });
+
+  // Unwinds to stack[index]: frames above it never closed, so they turn back
+  // into literal text; stack[index] itself closes normally.
+  const closeTo = (index: number) => {
+    while (stack.length > index + 1) {
+      const frame = stack.pop()!;
+      append([frame.marker, ...frame.children]);
+    }
+    const frame = stack.pop()!;
+    out().push({ kind: frame.kind, children: frame.children });
+  };
+
+  const findOpen = (closer: string) => {
+    for (let i = stack.length - 1; i >= 0; i--) if (stack[i].closer === closer) return i;
+    return -1;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const top = stack[stack.length - 1];
+
+    // Inside `code` nothing else is markup
+    if (top?.kind === "code") {
+      if (ch === "`") closeTo(stack.length - 1);
+      else pushText(out(), ch);
+      i++;
+      continue;
+    }
+
+    if (ch === "`") {
+      open("code", "`", "`");
+      i++;
+      continue;
+    }
+
+    if (ch === "(" && OOC_OPENER.test(text.slice(i))) {
+      const marker = text.slice(i).match(OOC_OPENER)![0];
+      open("ooc", marker, ")");
+      oocDepth = 0;
+      i += marker.length;
+      continue;
+    }
+
+    if (ch === "(" && findOpen(")") >= 0) {
+      oocDepth++;
+      pushText(out(), ch);
+      i++;
+      continue;
+    }
+
+    if (ch === ")" && findOpen(")") >= 0) {
+      if (oocDepth > 0) {
+        oocDepth--;
+        pushText(out(), ch);
+      } else {
+        closeTo(findOpen(")"));
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === "*" || ch === "_") {
+      const double = ch === "*" && text[i + 1] === "*";
+      const marker = double ? "**" : ch;
+      const openIndex = findOpen(marker);
+
+      // Closes when it follows text (not a space) and matches an open frame
+      if (openIndex >= 0 && !isSpace(text[i - 1]) && (ch !== "_" || !isWordChar(text[i + marker.length]))) {
+        closeTo(openIndex);
+        i += marker.length;
+        continue;
+      }
+
+      // Opens when followed by text ("2 * 3" and snake_case stay literal)
+      if (!isSpace(text[i + marker.length]) && (ch !== "_" || !isWordChar(text[i - 1]))) {
+        open(double ? "strong" : ch === "*" ? "action" : "em", marker, marker);
+        i += marker.length;
+        continue;
+      }
+
+      pushText(out(), marker);
+      i += marker.length;
+      continue;
+    }
+
+    if (ch === '"') {
+      const openIndex = findOpen('"');
+      if (openIndex >= 0) closeTo(openIndex);
+      else open("dialogue", '"', '"');
+      i++;
+      continue;
+    }
+
+    if (ch === "“") {
+      open("dialogue", "“", "”");
+      i++;
+      continue;
+    }
+
+    if (ch === "”" && findOpen("”") >= 0) {
+      closeTo(findOpen("”"));
+      i++;
+      continue;
+    }
+
+    pushText(out(), ch);
+    i++;
+  }
+
+  // End of text with frames still open
+  while (stack.length) {
+    const frame = stack.pop()!;
+    append(
+      streaming
+        ? [{ kind: frame.kind, children: frame.children, open: true }]
+        : [frame.marker, ...frame.children]
+    );
+  }
+
+  return root;
+}
+
+// Splits a message into paragraphs, ((OOC)) paragraphs and lists. Blank
+// lines separate paragraphs; single newlines stay line breaks.
+export function parseMessage(text: string, streaming = false): Block[] {
+  const blocks: Block[] = [];
+  const paragraphs = text.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  paragraphs.forEach((para, pi) => {
+    const lines = para.split("\n").filter((l) => l.trim());
+    if (lines.length === 0) return;
+
+    let current: Block | null = null;
+    for (const [li, line] of lines.entries()) {
+      // Only the very last line can still be growing
+      const growing = streaming && pi === paragraphs.length - 1 && li === lines.length - 1;
+      const item = line.match(LIST_ITEM);
+
+      if (item) {
+        const ordered = !!item[2];
+        if (current?.kind !== "list" || current.ordered !== ordered) {
+          current = { kind: "list", ordered, items: [] };
+          blocks.push(current);
+        }
+        current.items.push(parseInline(item[3], growing));
+        continue;
+      }
+
+      const text: TextBlock =
+        current && current.kind !== "list"
+          ? current
+          : // ((double parentheses)) mark a whole out-of-character paragraph
+            { kind: line.trim().startsWith("((") ? "ooc" : "paragraph", lines: [] };
+      if (text !== current) {
+        current = text;
+        blocks.push(text);
+      }
+      text.lines.push(parseInline(line, growing));
+    }
+  });
+
+  return blocks;
+}
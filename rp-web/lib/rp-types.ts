@@ -0,0 +1,190 @@
+// Shared types for the roleplay client (messages, sessions, setup sheets).
+
+// "say" = normal in-character line, "me" = emote/action, "ooc" = out of
+// character, "narrate" = director/narrator instruction
+export type MessageKind = "say" | "me" | "ooc" | "narrate";
+
+export type ChatMessage = {
+  id?: string;
+  role: "user" | "assistant";
+  // Missing = "say"
+  kind?: MessageKind;
+  // For assistant messages with alternatives, always candidates[selected]
+  content: string;
+  // Set when the user stopped generation before the reply finished
+  interrupted?: boolean;
+  // Alternative assistant replies (regenerate), plus which one is canonical
+  candidates?: string[];
+  selected?: number;
+  // Timing / usage of the reply as streamed (assistant messages only)
+  stats?: ReplyStats;
+  // Group scenes: which character wrote an assistant reply. The name is kept
+  // so the bubble stays labelled after that character leaves the cast.
+  speaker_id?: string;
+  speaker_name?: string;
+};
+
+// From the chat_stream `usage` / `done` events plus client-side timing
+export type ReplyStats = {
+  // Request sent -> first delta, and -> stream end (ms)
+  ttft_ms?: number;
+  duration_ms?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  // "stop", "length" (cut off at max tokens), "content_filter", …
+  finish_reason?: string;
+  model?: string;
+};
+
+export type SessionItem = {
+  id: string;
+  title: string;
+  world_name: string;
+  world_id?: string | null;
+  updated_at: string | null;
+  archived: boolean;
+  branch_count?: number;
+};
+
+// A fork of a session's history (created by "rewind to here")
+export type BranchItem = {
+  id: string;
+  name: string | null;
+  created_at: string | null;
+  message_count?: number;
+};
+
+export type CharacterSheet = {
+  name: string;
+  description: string;
+  personality: string;
+  style: string;
+  rules: string;
+  scenario: string;
+  first_message: string;
+  example_dialogues: string;
+  system_prompt: string;
+  // Character card fields the sheet has no place for (tags, creator notes,
+  // alternate greetings, extensions…), kept so export round-trips them
+  card_extra?: Record<string, unknown>;
+};
+
+// Group scenes: another AI character alongside the session's own (Setup)
+// character
+export type CastMember = {
+  id: string;
+  sheet: CharacterSheet;
+  // Emoji / short text, or an image URL
+  avatar: string;
+  // false = has left the scene; kept so their past replies keep a name
+  present: boolean;
+};
+
+// Who replies next: picked by the user, taking turns, or by mentions/recency
+export type SpeakerMode = "manual" | "round_robin" | "auto";
+
+// Lives in session state under `cast`. The Setup character is always part of
+// it (see LEAD_ID in lib/cast.ts); `members` are the others.
+export type SceneCast = {
+  mode: SpeakerMode;
+  lead_avatar: string;
+  lead_present: boolean;
+  members: CastMember[];
+};
+
+export type PlayerSheet = {
+  name: string;
+  description: string;
+  notes: string;
+};
+
+export type SetupSnapshot = {
+  character: CharacterSheet;
+  player: PlayerSheet;
+};
+
+// Used when no world has been picked (and by sessions created before worlds)
+export const DEFAULT_WORLD_NAME = "Dev World";
+
+// A world groups sessions and gives the RP its setting, tone and opening.
+export type WorldItem = {
+  id: string;
+  name: string;
+  description: string | null;
+  setting: string | null;
+  tone: string | null;
+  scenario: string | null;
+  lorebook?: LoreEntry[] | null;
+  updated_at?: string | null;
+};
+
+export type WorldDraft = {
+  name: string;
+  description: string;
+  setting: string;
+  tone: string;
+  scenario: string;
+};
+
+// Lorebook / world-info entry: injected into the RP when a keyword appears
+// in the latest turns. Lives in session state or on a world.
+export type LoreEntry = {
+  id: string;
+  title: string;
+  keywords: string[];
+  content: string;
+  // Higher wins when several entries compete for context
+  priority: number;
+  enabled: boolean;
+};
+
+// Saved, reusable sheets: "character" = AI character, "persona" = player
+export type LibraryKind = "character" | "persona";
+
+export type LibraryItem = {
+  id: string;
+  kind: LibraryKind;
+  name: string;
+  sheet: CharacterSheet | PlayerSheet;
+  updated_at: string | null;
+};
+
+export type ResponseLength = "short" | "medium" | "long";
+
+// Sampling / length knobs sent with each chat_stream request. null = let the
+// backend decide.
+export type GenerationSettings = {
+  temperature: number | null;
+  max_tokens: number | null;
+  // Backend model or preset id; "" = backend default
+  model: string;
+  response_length: ResponseLength;
+  stop: string[];
+};
+
+// A named set of generation settings (e.g. "fast banter", "long prose")
+export type GenerationPreset = {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+  updated_at: string | null;
+};
+
+// One remembered fact or relationship note in session memory
+export type MemoryEntry = {
+  id: string;
+  text: string;
+  // Pinned entries are always kept in context
+  pinned: boolean;
+  // The message it was taken from ("remember this"), if any
+  message_id?: string;
+};
+
+// What the AI carries between turns: running summary, key facts and
+// relationship notes. Lives in session state under `memory`.
+export type SessionMemory = {
+  summary: string;
+  facts: MemoryEntry[];
+  relationships: MemoryEntry[];
+};
@@ -0,0 +1,120 @@
+// Full-text search over session titles and message content (backend
+// `GET /search`). Snippets come back as plain text; matches are highlighted
+// here, so nothing from the backend is ever rendered as HTML.
+
+export type SearchArchived = "active" | "archived" | "all";
+
+export type SearchFilters = {
+  // World name; "" = any world
+  world_name: string;
+  // Inclusive local dates (YYYY-MM-DD); "" = open-ended
+  from: string;
+  to: string;
+  archived: SearchArchived;
+};
+
+export type SearchResult = {
+  session_id: string;
+  session_title: string;
+  world_name: string;
+  archived: boolean;
+  // null when the session title matched rather than a message
+  message_id: string | null;
+  role: "user" | "assistant" | null;
+  snippet: string;
+  // Message time for message hits, last activity for title hits
+  at: string | null;
+};
+
+export const SEARCH_PAGE_SIZE = 20;
+
+const SNIPPET_LENGTH = 160;
+
+export function emptySearchFilters(): SearchFilters {
+  return { world_name: "", from: "", to: "", archived: "all" };
+}
+
+// Words and "quoted phrases" from the query box
+export function searchTerms(query: string) {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+export function searchQueryString(query: string, filters: SearchFilters, cursor: string | null) {
+  const params = new URLSearchParams({ q: query.trim(), limit: String(SEARCH_PAGE_SIZE) });
+  if (filters.world_name) params.set("world_name", filters.world_name);
+  // Dates are whole local days, sent as instants
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.archived !== "all") params.set("archived", String(filters.archived === "archived"));
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function termPattern(terms: string[]) {
+  if (!terms.length) return null;
+  // Longest first so "smuggler" wins over "smug"
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(${alternatives.join("|")})`, "giu");
+}
+
+// Cuts long text down to a window around the first match.
+function snippetAround(text: string, terms: string[]) {
+  const plain = text.replace(/\s+/g, " ").trim();
+  if (plain.length <= SNIPPET_LENGTH) return plain;
+
+  const pattern = termPattern(terms);
+  const at = pattern ? plain.search(pattern) : -1;
+  const start = Math.max(0, Math.min(at - SNIPPET_LENGTH / 3, plain.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  return `${start > 0 ? "…" : ""}${plain.slice(start, end).trim()}${end < plain.length ? "…" : ""}`;
+}
+
+function text(v: unknown) {
+  return typeof v === "string" ? v : "";
+}
+
+// Accepts the backend's row shape, also when it returns full message
+// content instead of a snippet. Rows without a session are dropped.
+export function searchResultFromRaw(raw: unknown, terms: string[]): SearchResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const sessionId = text(r.session_id);
+  if (!sessionId) return null;
+
+  const messageId = text(r.message_id) || null;
+  const title = text(r.session_title) || text(r.title);
+  // Some backends mark matches with <b>…</b> (ts_headline); ours does that here
+  const body = (text(r.snippet) || text(r.content) || (messageId ? "" : title)).replace(/<\/?b>/g, "");
+
+  return {
+    session_id: sessionId,
+    session_title: title,
+    world_name: text(r.world_name),
+    archived: r.archived === true,
+    message_id: messageId,
+    role: r.role === "user" || r.role === "assistant" ? r.role : null,
+    snippet: snippetAround(body, terms),
+    at: text(r.created_at) || text(r.updated_at) || null,
+  };
+}
+
+// Splits text into plain and matching parts for highlighting.
+export function highlightParts(text: string, terms: string[]): { text: string; match: boolean }[] {
+  const pattern = termPattern(terms);
+  if (!pattern) return [{ text, match: false }];
+
+  // With one capture group, split() puts the matches at odd indexes
+  return text
+    .split(pattern)
+    .map((part, i) => ({ text: part, match: i % 2 === 1 }))
+    .filter((part) => part.text);
+}
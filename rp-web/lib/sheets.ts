@@ -0,0 +1,57 @@
+import type { CharacterSheet, PlayerSheet } from "@/lib/rp-types";
+
+// Character and player sheets as stored in session state and in the library.
+// Stored sheets may predate fields or be partial saves: gaps become "".
+
+export function emptyCharacter(): CharacterSheet {
+  return {
+    name: "",
+    description: "",
+    personality: "",
+    style: "",
+    rules: "",
+    scenario: "",
+    first_message: "",
+    example_dialogues: "",
+    system_prompt: "",
+  };
+}
+
+export function emptyPlayer(): PlayerSheet {
+  return { name: "", description: "", notes: "" };
+}
+
+function asString(v: unknown): string {
+  return typeof v === "string" ? v : "";
+}
+
+function asObject(v: unknown): Record<string, unknown> {
+  return (v && typeof v === "object" && !Array.isArray(v) ? v : {}) as Record<string, unknown>;
+}
+
+export function characterFromRaw(raw: unknown): CharacterSheet {
+  const c = asObject(raw);
+  return {
+    name: asString(c.name),
+    description: asString(c.description),
+    personality: asString(c.personality),
+    style: asString(c.style),
+    rules: asString(c.rules),
+    scenario: asString(c.scenario),
+    first_message: asString(c.first_message),
+    example_dialogues: asString(c.example_dialogues),
+    system_prompt: asString(c.system_prompt),
+    ...(c.card_extra && typeof c.card_extra === "object"
+      ? { card_extra: c.card_extra as Record<string, unknown> }
+      : {}),
+  };
+}
+
+export function playerFromRaw(raw: unknown): PlayerSheet {
+  const p = asObject(raw);
+  return {
+    name: asString(p.name),
+    description: asString(p.description),
+    notes: asString(p.notes),
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { SSEDecoder, type SSEEvent } from "@/lib/sse";
+
+// Feeds the chunks in order and collects every event
+function decode(chunks: string[], decoder = new SSEDecoder()) {
+  const events: SSEEvent[] = [];
+  for (const chunk of chunks) events.push(...decoder.push(chunk));
+  return { events, decoder };
+}
+
+describe("SSEDecoder", () => {
+  it("decodes a simple event", () => {
+    const { events } = decode(["event: delta\ndata: hi\n\n"]);
+    expect(events).toEqual([{ event: "delta", data: "hi", id: "" }]);
+  });
+
+  it("defaults the event type to message", () => {
+    const { events } = decode(["data: x\n\n"]);
+    expect(events[0].event).toBe("message");
+  });
+
+  it("handles CRLF split between chunks", () => {
+    const { events } = decode(["data: a\r", "\n\r", "\ndata: b\r\n\r\n"]);
+    expect(events.map((e) => e.data)).toEqual(["a", "b"]);
+  });
+
+  it("handles lone CR line endings, also across chunks", () => {
+    const { events } = decode(["data: a\r\r", "data: b\r", "\r", "data: c\r\r"]);
+    expect(events.map((e) => e.data)).toEqual(["a", "b", "c"]);
+  });
+
+  it("does not treat a CR at a chunk end plus a later LF as one blank line", () => {
+    // "\r" ends the data line; the "\n" after it belongs to the same break,
+    // so there is no blank line yet
+    const { events } = decode(["data: a\r", "\n"]);
+    expect(events).toEqual([]);
+  });
+
+  it("joins multi-line data with newlines", () => {
+    const { events } = decode(["data: one\ndata:two\ndata\ndata:  three\n\n"]);
+    expect(events[0].data).toBe("one\ntwo\n\n three");
+  });
+
+  it("splits lines across chunks anywhere", () => {
+    const text = "event: delta\ndata: hello\n\n";
+    const { events } = decode(text.split(""));
+    expect(events).toEqual([{ event: "delta", data: "hello", id: "" }]);
+  });
+
+  it("ignores comment lines", () => {
+    const { events } = decode([": keep-alive\n", "data: x\n: mid-event comment\n\n"]);
+    expect(events).toEqual([{ event: "message", data: "x", id: "" }]);
+  });
+
+  it("drops a leading BOM only", () => {
+    const { events } = decode(["\uFEFFdata: \uFEFFx\n\n"]);
+    expect(events[0].data).toBe("\uFEFFx");
+  });
+
+  it("drops a BOM that arrives as its own first chunk", () => {
+    const { events } = decode(["\uFEFF", "data: x\n\n"]);
+    expect(events[0].data).toBe("x");
+  });
+
+  it("does not dispatch events without data", () => {
+    const { events } = decode(["event: ping\n\n", "event: delta\ndata: x\n\n"]);
+    expect(events).toEqual([{ event: "delta", data: "x", id: "" }]);
+  });
+
+  it("does not carry the event type over to the next event", () => {
+    const { events } = decode(["event: ping\n\ndata: x\n\n"]);
+    expect(events[0].event).toBe("message");
+  });
+
+  it("keeps the id across events", () => {
+    const { events, decoder } = decode(["id: 7\ndata: a\n\ndata: b\n\n"]);
+    expect(events.map((e) => e.id)).toEqual(["7", "7"]);
+    expect(decoder.lastEventId).toBe("7");
+  });
+
+  it("commits an id from an event without data", () => {
+    const { events, decoder } = decode(["id: 3\n\n"]);
+    expect(events).toEqual([]);
+    expect(decoder.lastEventId).toBe("3");
+  });
+
+  it("ignores ids containing NULL", () => {
+    const { decoder } = decode(["id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n"]);
+    expect(decoder.lastEventId).toBe("1");
+  });
+
+  it("only updates lastEventId when the event is dispatched", () => {
+    const decoder = new SSEDecoder();
+    decode(["id: 1\ndata: a\n\n", "id: 2\ndata: b\n"], decoder);
+    // The connection dropped before event 2 finished: resume after 1
+    expect(decoder.lastEventId).toBe("1");
+
+    decoder.reset();
+    const { events } = decode(["data: c\n\n"], decoder);
+    expect(events[0].id).toBe("1");
+    expect(decoder.lastEventId).toBe("1");
+  });
+
+  it("accepts retry with digits only", () => {
+    const { decoder } = decode(["retry: 1500\n", "retry: 2s\n", "retry: -1\n"]);
+    expect(decoder.retry).toBe(1500);
+  });
+
+  it("keeps retry and lastEventId across reset", () => {
+    const { decoder } = decode(["retry: 500\nid: 9\ndata: a\n\ndata: partial"]);
+    decoder.reset();
+    expect(decoder.retry).toBe(500);
+    expect(decoder.lastEventId).toBe("9");
+
+    const { events } = decode(["data: b\n\n"], decoder);
+    expect(events.map((e) => e.data)).toEqual(["b"]);
+  });
+
+  it("treats a line without a colon as a field with an empty value", () => {
+    const { events } = decode(["data\n\n"]);
+    expect(events).toEqual([{ event: "message", data: "", id: "" }]);
+  });
+});
@@ -0,0 +1,148 @@
+// Incremental Server-Sent Events decoder following the WHATWG EventSource
+// parsing rules (https://html.spec.whatwg.org/multipage/server-sent-events.html):
+// - lines end in CRLF, LF or CR (a CR at the end of a chunk may pair with a
+//   LF at the start of the next one);
+// - a leading BOM is dropped;
+// - lines starting with ":" are comments;
+// - "field: value" drops exactly one space after the colon, a line without a
+//   colon is a field with an empty value;
+// - multiple data lines are joined with "\n";
+// - `id` persists across events (and is ignored if it contains NULL); it only
+//   becomes lastEventId when its event is dispatched, so an event cut off by
+//   a dropped connection is never skipped on resume;
+// - `retry` only accepts ASCII digits;
+// - a blank line dispatches, and events with no data are not dispatched.
+//
+// It is transport-agnostic: feed it decoded text, get events back.
+
+export type SSEEvent = {
+  event: string;
+  data: string;
+  // Last event id in effect when this event was dispatched ("" if none)
+  id: string;
+};
+
+export class SSEDecoder {
+  private buffer = "";
+  private started = false;
+  private pendingCR = false;
+
+  private eventType = "";
+  private dataLines: string[] = [];
+  private hasData = false;
+  // "last event ID buffer": becomes lastEventId at the next blank line
+  private idBuffer = "";
+
+  // Persist across events, as with EventSource
+  lastEventId = "";
+  retry: number | null = null;
+
+  push(chunk: string): SSEEvent[] {
+    if (!this.started && chunk.length) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+
+    // "\r" ended the previous chunk; a "\n" here belongs to the same line break
+    if (this.pendingCR && chunk.startsWith("\n")) chunk = chunk.slice(1);
+    this.pendingCR = false;
+
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== "\n" && ch !== "\r") continue;
+
+      const line = this.buffer.slice(start, i);
+
+      if (ch === "\r") {
+        if (i + 1 < this.buffer.length) {
+          if (this.buffer[i + 1] === "\n") i++;
+        } else {
+          this.pendingCR = true;
+        }
+      }
+      start = i + 1;
+
+      const evt = this.processLine(line);
+      if (evt) events.push(evt);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  // Forget any partial event (e.g. before reconnecting). Keeps lastEventId/retry.
+  reset() {
+    this.buffer = "";
+    this.started = false;
+    this.pendingCR = false;
+    this.eventType = "";
+    this.dataLines = [];
+    this.hasData = false;
+    this.idBuffer = this.lastEventId;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === "") return this.dispatch();
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    let field = line;
+    let value = "";
+    if (colon !== -1) {
+      field = line.slice(0, colon);
+      value = line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        this.hasData = true;
+        break;
+      case "id":
+        if (!value.includes("\0")) this.idBuffer = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    // Even an event without data commits its id
+    this.lastEventId = this.idBuffer;
+    const hasData = this.hasData;
+    const evt: SSEEvent = {
+      event: this.eventType || "message",
+      data: this.dataLines.join("\n"),
+      id: this.lastEventId,
+    };
+
+    this.eventType = "";
+    this.dataLines = [];
+    this.hasData = false;
+
+    return hasData ? evt : null;
+  }
+}
+
+// Our backend sends JSON payloads; fall back to the raw string otherwise.
+export function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
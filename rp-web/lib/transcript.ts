@@ -0,0 +1,240 @@
+import { isAsideKind, isMessageKind } from "@/lib/message-kinds";
+import type { ChatMessage, SessionItem } from "@/lib/rp-types";
+import { characterFromRaw, emptyCharacter, emptyPlayer, playerFromRaw } from "@/lib/sheets";
+
+// Session transcripts: export as Markdown (for reading), lossless JSON (ours,
+// re-importable) or SillyTavern chat JSONL; import the two JSON formats.
+
+export type TranscriptFormat = "markdown" | "json" | "sillytavern";
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "sillytavern", label: "SillyTavern" },
+];
+
+const JSON_FORMAT_ID = "echoverse.transcript";
+
+export type Transcript = {
+  session: SessionItem;
+  // Raw session state (setup sheets, lorebook, …), kept whole
+  state: Record<string, unknown>;
+  messages: ChatMessage[];
+};
+
+export type TranscriptExportOptions = {
+  // Keep OOC and director turns (default true)
+  includeAsides?: boolean;
+};
+
+// What an imported file turns into: a new session with this title/state/history
+export type ImportedTranscript = {
+  title: string;
+  state: Record<string, unknown>;
+  messages: ChatMessage[];
+};
+
+function names(state: Record<string, unknown>) {
+  return {
+    character: characterFromRaw(state.character).name.trim() || "Character",
+    player: playerFromRaw(state.player).name.trim() || "You",
+  };
+}
+
+function toMarkdown({ session, state, messages }: Transcript) {
+  const who = names(state);
+  const lines = [`# ${session.title || "Untitled"}`, ""];
+
+  const meta = [`World: ${session.world_name}`, `${who.character} & ${who.player}`];
+  if (session.updated_at) meta.push(new Date(session.updated_at).toLocaleString());
+  lines.push(`*${meta.join(" · ")}*`, "");
+
+  for (const m of messages) {
+    const name = m.role === "user" ? who.player : (m.speaker_name ?? who.character);
+    const interrupted = m.interrupted ? " *(interrupted)*" : "";
+    if (m.kind === "narrate") lines.push(`> **Director:** ${m.content}`, "");
+    else if (m.kind === "ooc") lines.push(`> *(OOC) ${name}:* ${m.content}${interrupted}`, "");
+    else if (m.kind === "me") lines.push(`*${name} ${m.content}*${interrupted}`, "");
+    else lines.push(`**${name}:** ${m.content}${interrupted}`, "");
+  }
+
+  return lines.join("\n");
+}
+
+function toJson(t: Transcript) {
+  return JSON.stringify(
+    { format: JSON_FORMAT_ID, version: 1, exported_at: new Date().toISOString(), ...t },
+    null,
+    2
+  );
+}
+
+// One JSON object per line: a header, then one line per message.
+function toSillyTavern({ session, state, messages }: Transcript) {
+  const who = names(state);
+  const now = new Date().toISOString();
+  const header = {
+    user_name: who.player,
+    character_name: who.character,
+    create_date: session.updated_at ?? now,
+    chat_metadata: {},
+  };
+
+  // SillyTavern has no message types: emotes and OOC go back to its text
+  // conventions, director notes become narrator rows.
+  const rows = messages.map((m) => {
+    if (m.kind === "narrate") {
+      return {
+        name: "Narrator",
+        is_user: false,
+        is_system: false,
+        send_date: now,
+        mes: m.content,
+        extra: { type: "narrator" },
+      };
+    }
+    const mes = m.kind === "me" ? `*${m.content}*` : m.kind === "ooc" ? `(OOC: ${m.content})` : m.content;
+    return {
+      name: m.role === "user" ? who.player : (m.speaker_name ?? who.character),
+      is_user: m.role === "user",
+      is_system: false,
+      send_date: now,
+      mes,
+      ...(m.candidates?.length && !m.kind ? { swipes: m.candidates, swipe_id: m.selected ?? 0 } : {}),
+    };
+  });
+
+  return [header, ...rows].map((row) => JSON.stringify(row)).join("\n");
+}
+
+export function exportTranscript(
+  transcript: Transcript,
+  format: TranscriptFormat,
+  opts: TranscriptExportOptions = {}
+) {
+  const t =
+    opts.includeAsides === false
+      ? { ...transcript, messages: transcript.messages.filter((m) => !isAsideKind(m.kind)) }
+      : transcript;
+
+  switch (format) {
+    case "markdown":
+      return { text: toMarkdown(t), type: "text/markdown", ext: "md" };
+    case "json":
+      return { text: toJson(t), type: "application/json", ext: "json" };
+    case "sillytavern":
+      return { text: toSillyTavern(t), type: "application/jsonl", ext: "jsonl" };
+  }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function messageFromRaw(raw: unknown): ChatMessage | null {
+  if (!isObject(raw)) return null;
+  if (raw.role !== "user" && raw.role !== "assistant") return null;
+  if (typeof raw.content !== "string") return null;
+
+  const candidates = Array.isArray(raw.candidates)
+    ? raw.candidates.filter((c): c is string => typeof c === "string")
+    : [];
+
+  return {
+    role: raw.role,
+    content: raw.content,
+    ...(isMessageKind(raw.kind) && raw.kind !== "say" ? { kind: raw.kind } : {}),
+    ...(typeof raw.speaker_id === "string" ? { speaker_id: raw.speaker_id } : {}),
+    ...(typeof raw.speaker_name === "string" ? { speaker_name: raw.speaker_name } : {}),
+    ...(raw.interrupted === true ? { interrupted: true } : {}),
+    ...(candidates.length > 1
+      ? { candidates, selected: typeof raw.selected === "number" ? raw.selected : 0 }
+      : {}),
+  };
+}
+
+function fromJson(data: Record<string, unknown>): ImportedTranscript {
+  if (!Array.isArray(data.messages)) throw new Error("Transcript has no messages.");
+  const session = isObject(data.session) ? data.session : {};
+
+  return {
+    title: typeof session.title === "string" && session.title.trim() ? session.title : "Imported chat",
+    state: isObject(data.state) ? data.state : {},
+    messages: data.messages.map(messageFromRaw).filter((m): m is ChatMessage => !!m),
+  };
+}
+
+function fromSillyTavern(rows: Record<string, unknown>[], fileName: string): ImportedTranscript {
+  const header = rows[0] && !("mes" in rows[0]) ? rows[0] : {};
+  const messages: ChatMessage[] = [];
+
+  for (const row of rows) {
+    // System notes aren't part of the conversation
+    if (typeof row.mes !== "string" || row.is_system === true) continue;
+
+    const extra = isObject(row.extra) ? row.extra : {};
+    if (extra.type === "narrator") {
+      messages.push({ role: "user", kind: "narrate", content: row.mes });
+      continue;
+    }
+
+    const swipes = Array.isArray(row.swipes)
+      ? row.swipes.filter((s): s is string => typeof s === "string")
+      : [];
+    const swipeId = typeof row.swipe_id === "number" ? row.swipe_id : 0;
+
+    // Group chats: replies from anyone but the header's character keep
+    // their author's name
+    const speakerName =
+      row.is_user !== true && typeof row.name === "string" && row.name !== header.character_name
+        ? row.name
+        : "";
+
+    messages.push({
+      role: row.is_user === true ? "user" : "assistant",
+      content: row.mes,
+      ...(speakerName ? { speaker_name: speakerName } : {}),
+      ...(row.is_user !== true && swipes.length > 1 ? { candidates: swipes, selected: swipeId } : {}),
+    });
+  }
+
+  const characterName = typeof header.character_name === "string" ? header.character_name : "";
+  const playerName = typeof header.user_name === "string" ? header.user_name : "";
+
+  return {
+    title: characterName ? `${characterName} (imported)` : fileName.replace(/\.[^.]+$/, "") || "Imported chat",
+    state: {
+      character: { ...emptyCharacter(), name: characterName },
+      player: { ...emptyPlayer(), name: playerName },
+    },
+    messages,
+  };
+}
+
+// Accepts our JSON export or a SillyTavern .jsonl chat.
+export function parseTranscript(text: string, fileName: string): ImportedTranscript {
+  const trimmed = text.trim();
+
+  try {
+    const data: unknown = JSON.parse(trimmed);
+    if (isObject(data) && data.format === JSON_FORMAT_ID) return fromJson(data);
+  } catch {
+    // Not a single JSON document: try JSONL below
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error("Expected a JSON transcript or a SillyTavern .jsonl chat.");
+    }
+    if (isObject(row)) rows.push(row);
+  }
+
+  const imported = fromSillyTavern(rows, fileName);
+  if (imported.messages.length === 0) throw new Error("No messages found in this file.");
+  return imported;
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+// Minimal windowing for a vertically scrolling list with variable-height rows.
+//
+// Rows are measured with a ResizeObserver once rendered; until then they use
+// `estimateSize`. Two kinds of scroll anchoring keep the view from jumping:
+// - rows prepended at the top (older history) shift scrollTop by their height;
+// - rows above the viewport changing height (estimate -> measured) do the same.
+// If the user is scrolled to the bottom, they stay pinned there.
+
+type Options = {
+  scrollRef: React.RefObject<HTMLElement | null>;
+  // Stable key per row, in display order
+  keys: string[];
+  estimateSize?: number;
+  // Extra pixels rendered above/below the viewport
+  overscan?: number;
+};
+
+type Layout = { starts: number[]; total: number; indexByKey: Map<string, number> };
+
+const BOTTOM_SLACK = 40;
+
+export function useVirtualList({ scrollRef, keys, estimateSize = 96, overscan = 800 }: Options) {
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const layout = useMemo<Layout>(() => {
+    const starts: number[] = [];
+    const indexByKey = new Map<string, number>();
+    let total = 0;
+    keys.forEach((k, i) => {
+      starts.push(total);
+      indexByKey.set(k, i);
+      total += sizes.get(k) ?? estimateSize;
+    });
+    return { starts, total, indexByKey };
+  }, [keys, sizes, estimateSize]);
+
+  const layoutRef = useRef(layout);
+  const sizesRef = useRef(sizes);
+  const prevFirstKeyRef = useRef<string | null>(null);
+  const atBottomRef = useRef(true);
+
+  // Viewport relative to the top of the list (the scroll container may hold
+  // other content above it).
+  const readViewport = useCallback(() => {
+    const el = scrollRef.current;
+    const list = listRef.current;
+    if (!el) return;
+    const offset = list ? list.offsetTop : 0;
+    atBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_SLACK;
+    setViewport({ top: el.scrollTop - offset, height: el.clientHeight });
+  }, [scrollRef]);
+
+  // Keep refs in sync and anchor the view when rows are prepended.
+  useLayoutEffect(() => {
+    const prevLayout = layoutRef.current;
+    layoutRef.current = layout;
+    sizesRef.current = sizes;
+
+    const el = scrollRef.current;
+    const prevFirst = prevFirstKeyRef.current;
+    prevFirstKeyRef.current = keys[0] ?? null;
+    if (!el || prevFirst == null) return;
+
+    const newIndex = layout.indexByKey.get(prevFirst);
+    if (newIndex != null && newIndex > 0 && prevLayout.indexByKey.get(prevFirst) === 0) {
+      el.scrollTop += layout.starts[newIndex];
+    }
+  }, [layout, sizes, keys, scrollRef]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    let frame: number | null = null;
+    const onScroll = () => {
+      if (frame != null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        readViewport();
+      });
+    };
+
+    const ro = new ResizeObserver(() => readViewport());
+    ro.observe(el);
+    el.addEventListener("scroll", onScroll, { passive: true });
+    readViewport();
+
+    return () => {
+      el.removeEventListener("scroll", onScroll);
+      ro.disconnect();
+      if (frame != null) cancelAnimationFrame(frame);
+    };
+  }, [scrollRef, readViewport]);
+
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+  const rowsRef = useRef(new Set<HTMLElement>());
+
+  useEffect(() => {
+    const ro = new ResizeObserver((entries) => {
+      const el = scrollRef.current;
+      const { starts, indexByKey } = layoutRef.current;
+      const current = sizesRef.current;
+      const updates = new Map<string, number>();
+      let anchorDelta = 0;
+
+      for (const entry of entries) {
+        const row = entry.target as HTMLElement;
+        const key = row.dataset.key;
+        if (!key) continue;
+
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? row.offsetHeight;
+        const before = current.get(key) ?? estimateSize;
+        if (Math.abs(height - before) < 0.5 && current.has(key)) continue;
+
+        updates.set(key, height);
+
+        const index = indexByKey.get(key);
+        const listTop = listRef.current?.offsetTop ?? 0;
+        if (el && index != null && listTop + starts[index] < el.scrollTop) {
+          anchorDelta += height - before;
+        }
+      }
+
+      if (!updates.size) return;
+
+      const wasAtBottom = atBottomRef.current;
+      if (el && anchorDelta && !wasAtBottom) el.scrollTop += anchorDelta;
+
+      setSizes((prev) => {
+        const next = new Map(prev);
+        updates.forEach((v, k) => next.set(k, v));
+        return next;
+      });
+
+      if (el && wasAtBottom) {
+        requestAnimationFrame(() => {
+          el.scrollTop = el.scrollHeight;
+        });
+      }
+    });
+
+    rowObserverRef.current = ro;
+    rowsRef.current.forEach((row) => ro.observe(row));
+
+    return () => {
+      ro.disconnect();
+      rowObserverRef.current = null;
+    };
+  }, [scrollRef, estimateSize]);
+
+  // Attach to each rendered row (which must carry data-key).
+  const measureRef = useCallback((row: HTMLElement | null) => {
+    if (!row) return;
+    rowsRef.current.add(row);
+    rowObserverRef.current?.observe(row);
+    return () => {
+      rowsRef.current.delete(row);
+      rowObserverRef.current?.unobserve(row);
+    };
+  }, []);
+
+  const scrollToBottom = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    atBottomRef.current = true;
+    requestAnimationFrame(() => {
+      el.scrollTop = el.scrollHeight;
+    });
+  }, [scrollRef]);
+
+  // Scrolls a row into view a little below the top of the viewport, so some
+  // context above it shows too (e.g. a search hit).
+  const scrollToKey = useCallback(
+    (key: string) => {
+      const el = scrollRef.current;
+      if (!el) return;
+      atBottomRef.current = false;
+      requestAnimationFrame(() => {
+        const { starts, indexByKey } = layoutRef.current;
+        const index = indexByKey.get(key);
+        if (index == null) return;
+        const listTop = listRef.current?.offsetTop ?? 0;
+        el.scrollTop = Math.max(0, listTop + starts[index] - el.clientHeight / 4);
+      });
+    },
+    [scrollRef]
+  );
+
+  const range = useMemo(() => {
+    const { starts, total } = layout;
+    const count = starts.length;
+    if (!count) return { first: 0, last: -1 };
+
+    // Not laid out yet: render the tail, which is where a chat opens.
+    if (!viewport.height) return { first: Math.max(0, count - 20), last: count - 1 };
+
+    const top = Math.max(0, viewport.top - overscan);
+    const bottom = Math.min(total, viewport.top + viewport.height + overscan);
+
+    let lo = 0;
+    let hi = count - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= top) lo = mid;
+      else hi = mid - 1;
+    }
+    const first = lo;
+
+    let last = first;
+    while (last < count - 1 && starts[last + 1] < bottom) last++;
+
+    return { first, last };
+  }, [layout, viewport, overscan]);
+
+  const indexes: number[] = [];
+  for (let i = range.first; i <= range.last; i++) indexes.push(i);
+
+  const paddingTop = range.last >= 0 ? layout.starts[range.first] : 0;
+  const renderedEnd =
+    range.last >= 0
+      ? layout.starts[range.last] + (sizes.get(keys[range.last]) ?? estimateSize)
+      : 0;
+
+  return {
+    listRef,
+    measureRef,
+    scrollToBottom,
+    scrollToKey,
+    indexes,
+    paddingTop,
+    paddingBottom: Math.max(0, layout.total - renderedEnd),
+  };
+}
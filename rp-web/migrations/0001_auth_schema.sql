@@ -0,0 +1,56 @@
+-- NextAuth (@auth/pg-adapter) tables, in their own schema.
+-- lib/pg.ts sets search_path to auth,public on every connection.
+
+create schema if not exists auth;
+
+create table if not exists auth.users (
+  id serial primary key,
+  name varchar(255),
+  email varchar(255),
+  "emailVerified" timestamptz,
+  image text,
+  -- "admin" or null; read by the session callback in lib/auth.ts
+  role text check (role is null or role in ('admin'))
+);
+
+-- A users table created before migrations existed may predate the role column
+alter table auth.users
+  add column if not exists role text check (role is null or role in ('admin'));
+
+create unique index if not exists users_email_key on auth.users (email);
+
+create table if not exists auth.accounts (
+  id serial primary key,
+  "userId" integer not null references auth.users (id) on delete cascade,
+  type varchar(255) not null,
+  provider varchar(255) not null,
+  "providerAccountId" varchar(255) not null,
+  refresh_token text,
+  access_token text,
+  expires_at bigint,
+  id_token text,
+  scope text,
+  session_state text,
+  token_type text
+);
+
+create unique index if not exists accounts_provider_account_key
+  on auth.accounts (provider, "providerAccountId");
+create index if not exists accounts_user_id_idx on auth.accounts ("userId");
+
+create table if not exists auth.sessions (
+  id serial primary key,
+  "userId" integer not null references auth.users (id) on delete cascade,
+  expires timestamptz not null,
+  "sessionToken" varchar(255) not null
+);
+
+create unique index if not exists sessions_session_token_key on auth.sessions ("sessionToken");
+create index if not exists sessions_user_id_idx on auth.sessions ("userId");
+
+create table if not exists auth.verification_token (
+  identifier text not null,
+  expires timestamptz not null,
+  token text not null,
+  primary key (identifier, token)
+);
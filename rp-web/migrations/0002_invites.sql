@@ -0,0 +1,23 @@
+-- Invite codes and the short-lived claims that allow a magic-link sign-in.
+-- See app/api/invite/claim/route.ts and the signIn callback in lib/auth.ts.
+
+create table if not exists public.invite_codes (
+  code text primary key,
+  is_active boolean not null default true,
+  -- null = unlimited
+  max_uses integer check (max_uses is null or max_uses > 0),
+  uses integer not null default 0 check (uses >= 0),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.invite_claims (
+  id bigserial primary key,
+  email text not null,
+  code text not null references public.invite_codes (code) on update cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  consumed_at timestamptz
+);
+
+create index if not exists invite_claims_email_created_idx on public.invite_claims (email, created_at desc);
+create index if not exists invite_claims_code_created_idx on public.invite_claims (code, created_at desc);
@@ -0,0 +1,22 @@
+-- Postgres-backed rate limiting (lib/rate-limit.ts).
+
+-- Sliding window log: one row per hit
+create table if not exists public.rate_limit_events (
+  id bigserial primary key,
+  bucket text not null,
+  key text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_events_key_idx on public.rate_limit_events (bucket, key, created_at);
+create index if not exists rate_limit_events_created_idx on public.rate_limit_events (created_at);
+
+-- Progressive lockout after repeated failures
+create table if not exists public.rate_limit_lockouts (
+  bucket text not null,
+  key text not null,
+  failures integer not null default 0,
+  locked_until timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (bucket, key)
+);
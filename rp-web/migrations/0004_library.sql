@@ -0,0 +1,15 @@
+-- Per-user library of AI characters and player personas, reusable across
+-- sessions. See app/api/library/.
+
+create table public.library_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id integer not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('character', 'persona')),
+  name text not null,
+  -- CharacterSheet or PlayerSheet, as in session state
+  sheet jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index library_items_user_kind_idx on public.library_items (user_id, kind, updated_at desc);
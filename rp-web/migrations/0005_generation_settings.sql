@@ -0,0 +1,18 @@
+-- Per-user generation defaults and named presets. Per-session settings live
+-- in the session state on the RP backend. See app/api/generation/.
+
+create table public.user_settings (
+  user_id integer primary key references auth.users (id) on delete cascade,
+  generation jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create table public.generation_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id integer not null references auth.users (id) on delete cascade,
+  name text not null,
+  settings jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
@@ -0,0 +1,95 @@
+// Service worker: keeps the app shell and recently read sessions available
+// offline. Pages and read-only API calls are network-first (falling back to
+// the last good response); build assets are cache-first since their URLs are
+// content-hashed. Sending (POST) is never handled here: the page queues
+// messages itself while offline.
+//
+// Cached API data belongs to the signed-in user: the page posts
+// { type: "clear-data" } when that changes (see claimOfflineData in
+// lib/offline.ts) and the data cache is dropped.
+//
+// Bump VERSION when the caching rules change; old caches are dropped on
+// activate.
+
+const VERSION = "v2";
+const SHELL_CACHE = `echoverse-shell-${VERSION}`;
+const DATA_CACHE = `echoverse-data-${VERSION}`;
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+// API reads worth answering from cache offline: sessions, messages, worlds,
+// library and generation settings. Never the sign-in session, which would
+// keep a signed-out (or different) user signed in from cache.
+const CACHED_API = [
+  /^\/api\/rp\/(sessions|messages|worlds)(\/|$)/,
+  /^\/api\/(library|generation)$/,
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "clear-data") event.waitUntil(caches.delete(DATA_CACHE));
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached =
+      (await cache.match(request)) || (fallbackUrl ? await cache.match(fallbackUrl) : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Any page (e.g. /s/<id> never opened before) falls back to the app shell
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (CACHED_API.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
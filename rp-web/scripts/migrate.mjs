@@ -0,0 +1,131 @@
+// Applies the SQL files in migrations/ in filename order, once each.
+//
+//   npm run migrate            apply pending migrations
+//   npm run migrate -- status  list applied / pending migrations
+//
+// Applied migrations are recorded in public.schema_migrations with a checksum,
+// so editing a migration after it ran is reported instead of silently ignored.
+// Each migration runs in its own transaction; an advisory lock keeps two
+// runners (e.g. parallel deploys) from applying the same migration twice.
+//
+// 0001-0003 only create what is missing ("if not exists"): they describe
+// tables that databases set up by hand already had, so those databases can
+// simply run `npm run migrate` to start tracking them.
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import pg from "pg";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const MIGRATIONS_DIR = path.join(ROOT, "migrations");
+const LOCK_ID = 872_341_001;
+
+// Same files Next.js reads, most specific first (existing env vars win)
+for (const file of [".env.local", ".env"]) {
+  const full = path.join(ROOT, file);
+  if (existsSync(full)) process.loadEnvFile(full);
+}
+
+function loadMigrations() {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((f) => /^\d+_.+\.sql$/.test(f))
+    .sort()
+    .map((file) => {
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+      return {
+        version: file.split("_")[0],
+        name: file,
+        sql,
+        checksum: createHash("sha256").update(sql).digest("hex"),
+      };
+    });
+}
+
+async function main() {
+  const command = process.argv[2] ?? "up";
+  if (command !== "up" && command !== "status") {
+    throw new Error(`Unknown command "${command}" (expected "up" or "status")`);
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error("Missing DATABASE_URL");
+
+  const client = new pg.Client({
+    connectionString,
+    ssl: /sslmode=disable/.test(connectionString) ? false : { rejectUnauthorized: false },
+  });
+  await client.connect();
+
+  try {
+    await client.query(`select pg_advisory_lock($1)`, [LOCK_ID]);
+
+    await client.query(`
+      create table if not exists public.schema_migrations (
+        version text primary key,
+        name text not null,
+        checksum text not null,
+        applied_at timestamptz not null default now()
+      )
+    `);
+
+    const applied = new Map(
+      (await client.query(`select version, name, checksum from public.schema_migrations`)).rows.map(
+        (r) => [r.version, r]
+      )
+    );
+
+    const migrations = loadMigrations();
+    const pending = [];
+
+    for (const m of migrations) {
+      const row = applied.get(m.version);
+      if (!row) {
+        pending.push(m);
+      } else if (row.checksum !== m.checksum) {
+        throw new Error(
+          `Migration ${m.name} was changed after it was applied. Add a new migration instead.`
+        );
+      }
+    }
+
+    if (command === "status") {
+      for (const m of migrations) {
+        console.log(`${applied.has(m.version) ? "applied" : "pending"}  ${m.name}`);
+      }
+      return;
+    }
+
+    if (pending.length === 0) {
+      console.log("Database is up to date.");
+      return;
+    }
+
+    for (const m of pending) {
+      process.stdout.write(`Applying ${m.name}… `);
+      await client.query("BEGIN");
+      try {
+        await client.query(m.sql);
+        await client.query(
+          `insert into public.schema_migrations (version, name, checksum) values ($1, $2, $3)`,
+          [m.version, m.name, m.checksum]
+        );
+        await client.query("COMMIT");
+        console.log("done");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.log("failed");
+        throw err;
+      }
+    }
+  } finally {
+    await client.query(`select pg_advisory_unlock($1)`, [LOCK_ID]).catch(() => {});
+    await client.end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+import type { DefaultSession } from "next-auth";
+
+declare module "next-auth" {
+  interface Session {
+    user?: DefaultSession["user"] & {
+      id?: string;
+      role?: string | null;
+    };
+  }
+
+  // Extra column on the adapter's users table ("admin" or null)
+  interface User {
+    role?: string | null;
+  }
+}